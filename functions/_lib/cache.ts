@@ -0,0 +1,41 @@
+import { Env } from "./env";
+
+/** What a cached answer keeps; attempts and quota are per request and not stored. */
+export type CachedAnswer<T> = { result: T; provider: string; model: string; at: string };
+
+const DEFAULT_TTL = 604800;
+// KV rejects shorter expirations.
+const MIN_TTL = 60;
+// Bump when the prompt or stored shape changes so old entries stop matching.
+const VERSION = 1;
+
+/** AI_CACHE when bound, else the rate limit namespace; null when caching is off (AI_CACHE_TTL=0) or there is no KV. */
+export function responseCache(env: Env): { kv: KVNamespace; ttl: number } | null {
+  const kv = env.AI_CACHE || env.RLKV;
+  const raw = Number(env.AI_CACHE_TTL);
+  const ttl = env.AI_CACHE_TTL !== undefined && env.AI_CACHE_TTL !== "" && Number.isFinite(raw) ? raw : DEFAULT_TTL;
+  return kv && ttl > 0 ? { kv, ttl: Math.max(MIN_TTL, ttl) } : null;
+}
+
+/** JSON with object keys sorted, so equal payloads hash equally however they were built. */
+function canonical(v: unknown): string {
+  if (Array.isArray(v)) return `[${v.map(canonical).join(",")}]`;
+  if (v && typeof v === "object") {
+    return `{${Object.keys(v).sort().filter((k) => (v as any)[k] !== undefined).map((k) => `${JSON.stringify(k)}:${canonical((v as any)[k])}`).join(",")}}`;
+  }
+  return JSON.stringify(v) ?? "null";
+}
+
+export async function cacheKey(parts: Record<string, unknown>): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(canonical({ v: VERSION, ...parts })));
+  return `cache:${Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("")}`;
+}
+
+export async function readCached<T>(kv: KVNamespace, key: string): Promise<CachedAnswer<T> | null> {
+  return (await kv.get(key, "json").catch(() => null)) as CachedAnswer<T> | null;
+}
+
+export async function writeCached<T>(kv: KVNamespace, key: string, ttl: number, entry: CachedAnswer<T>): Promise<void> {
+  // A failed write only costs the next request a model call.
+  await kv.put(key, JSON.stringify(entry), { expirationTtl: ttl }).catch(() => {});
+}
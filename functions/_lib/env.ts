@@ -0,0 +1,29 @@
+export interface Env {
+  RLKV?: KVNamespace;
+  RATE_LIMITER?: DurableObjectNamespace;
+  AI_CACHE?: KVNamespace;
+  AI?: Ai;
+  AI_DEFAULT_PROVIDER?: string;
+  OPENAI_API_KEY?: string;
+  OPENAI_BASE_URL?: string;
+  OPENAI_MODEL?: string;
+  OPENAI_FALLBACK_API_KEY?: string;
+  OPENAI_FALLBACK_BASE_URL?: string;
+  OPENAI_FALLBACK_MODEL?: string;
+  GEMINI_API_KEY?: string;
+  GEMINI_MODEL?: string;
+  ANTHROPIC_API_KEY?: string;
+  ANTHROPIC_MODEL?: string;
+  OLLAMA_BASE_URL?: string;
+  OLLAMA_MODEL?: string;
+  WORKERS_AI_MODEL?: string;
+  AI_FALLBACK_CHAIN?: string;
+  AI_MAX_RETRIES?: string;
+  AI_RETRY_BASE_MS?: string;
+  AI_TIMEOUT_MS?: string;
+  AI_DAILY_LIMIT?: string;
+  AI_CHAT_DAILY_LIMIT?: string;
+  AI_GLOBAL_DAILY_LIMIT?: string;
+  AI_BYPASS_IPS?: string;
+  AI_CACHE_TTL?: string;
+}
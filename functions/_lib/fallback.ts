@@ -0,0 +1,126 @@
+import { Env } from "./env";
+import { getProvider, Prompt, ProviderAdapter, ProviderError, ProviderId, ProviderOverrides, PROVIDERS, resolveConfig, streamCompletion, usesOwnKey } from "./providers";
+
+export type Attempt = {
+  provider: ProviderId;
+  model: string;
+  tries: number;
+  ok: boolean;
+  status?: number;
+  error?: string;
+};
+
+export type OpenedStream = {
+  provider: ProviderAdapter;
+  model: string;
+  first: string;
+  rest: AsyncGenerator<string>;
+  attempts: Attempt[];
+};
+
+export class ChainFailedError extends Error {
+  constructor(public attempts: Attempt[]) {
+    super(`All AI providers failed: ${attempts.map((a) => `${a.provider}: ${a.error}`).join("; ")}`);
+  }
+}
+
+class TimeoutError extends Error {}
+
+function numberVar(raw: string | undefined, fallback: number): number {
+  const n = Number(raw);
+  return raw !== undefined && raw !== "" && Number.isFinite(n) && n >= 0 ? n : fallback;
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const id = setTimeout(resolve, ms);
+    signal.addEventListener("abort", () => { clearTimeout(id); resolve(); }, { once: true });
+  });
+}
+
+/** 429, 5xx, timeouts and network errors are worth another try; other 4xx are not. */
+function retriable(e: unknown): boolean {
+  if (e instanceof TimeoutError) return true;
+  if (e instanceof ProviderError) return e.status === undefined || e.status === 429 || e.status >= 500;
+  return e instanceof TypeError;
+}
+
+/**
+ * The requested provider first (with the client's key, URL and model), then
+ * AI_FALLBACK_CHAIN entries on the deployment's own credentials. Requests on
+ * the user's own key are not counted against the quota, so they get no chain.
+ */
+export function providerChain(env: Env, requested: string | undefined, o: ProviderOverrides): ProviderAdapter[] {
+  const chain = [getProvider(env, requested)];
+  if (usesOwnKey(env, requested, o)) return chain;
+  for (const id of (env.AI_FALLBACK_CHAIN || "").split(",").map((s) => s.trim()).filter(Boolean)) {
+    const p = PROVIDERS[id as ProviderId];
+    if (p && !chain.includes(p)) chain.push(p);
+  }
+  return chain;
+}
+
+/**
+ * Opens one attempt and waits for its first token, which is where timeouts apply:
+ * once text is flowing the stream is handed to the client as is.
+ */
+async function openAttempt(env: Env, p: ProviderAdapter, model: string, o: ProviderOverrides, prompt: Prompt, signal: AbortSignal, timeoutMs: number) {
+  const ctrl = new AbortController();
+  const forward = () => ctrl.abort();
+  signal.addEventListener("abort", forward, { once: true });
+  let timedOut = false;
+  const timer = setTimeout(() => { timedOut = true; ctrl.abort(); }, timeoutMs);
+  try {
+    const stream = streamCompletion(env, p, resolveConfig(env, p, { ...o, model }), prompt, ctrl.signal);
+    const first = await stream.next();
+    if (first.done) throw new ProviderError("No text in model response.");
+    // The winning stream still follows the request's signal until it ends.
+    const rest = (async function* () {
+      try {
+        yield* stream;
+      } finally {
+        signal.removeEventListener("abort", forward);
+      }
+    })();
+    return { first: first.value, rest };
+  } catch (e) {
+    signal.removeEventListener("abort", forward);
+    if (timedOut) throw new TimeoutError(`No response within ${timeoutMs} ms.`);
+    throw e;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export async function openWithFallback(env: Env, requested: string | undefined, o: ProviderOverrides, prompt: Prompt, signal: AbortSignal): Promise<OpenedStream> {
+  const maxRetries = numberVar(env.AI_MAX_RETRIES, 1);
+  const baseDelay = numberVar(env.AI_RETRY_BASE_MS, 400);
+  const timeoutMs = numberVar(env.AI_TIMEOUT_MS, 25000);
+  const attempts: Attempt[] = [];
+
+  for (const [i, p] of providerChain(env, requested, o).entries()) {
+    const overrides = i === 0 ? o : {};
+    const model = overrides.model || p.defaultModel(env);
+    const attempt: Attempt = { provider: p.id, model, tries: 0, ok: false };
+    attempts.push(attempt);
+
+    for (;;) {
+      attempt.tries += 1;
+      try {
+        const opened = await openAttempt(env, p, model, overrides, prompt, signal, timeoutMs);
+        attempt.ok = true;
+        delete attempt.status;
+        delete attempt.error;
+        return { provider: p, model, ...opened, attempts };
+      } catch (e: any) {
+        if (signal.aborted) throw e;
+        attempt.error = e?.message || "AI error.";
+        if (e instanceof ProviderError && e.status !== undefined) attempt.status = e.status;
+        if (!retriable(e) || attempt.tries > maxRetries) break;
+        const backoff = baseDelay * 2 ** (attempt.tries - 1);
+        await sleep(Math.min(Math.max(backoff, e instanceof ProviderError ? e.retryAfterMs || 0 : 0), 5000), signal);
+      }
+    }
+  }
+  throw new ChainFailedError(attempts);
+}
@@ -0,0 +1,83 @@
+import { AiRecommendation, AiReview, findTitle, indexTitles, parseReview, TitleRef } from "../../src/lib/aiReview";
+import { foldTitle } from "../../src/lib/identity";
+
+export type Library = { seen: TitleRef[]; watchlist: TitleRef[] };
+
+export type GroundingReport = {
+  alreadySeen: number;
+  replaced: number;
+  onWatchlist: number;
+  followUp: "skipped" | "ok" | "failed";
+};
+
+/** Drops anything that is not a [string, number | null] pair; the client sends this list. */
+export function readLibrary(raw: unknown): Library | null {
+  if (!raw || typeof raw !== "object") return null;
+  const refs = (v: unknown): TitleRef[] =>
+    Array.isArray(v)
+      ? v.filter((r): r is TitleRef => Array.isArray(r) && typeof r[0] === "string" && (typeof r[1] === "number" || r[1] === null))
+      : [];
+  const lib = raw as { seen?: unknown; watchlist?: unknown };
+  return { seen: refs(lib.seen), watchlist: refs(lib.watchlist) };
+}
+
+/**
+ * Replaces recommendations the user has already watched, in place, with fresh
+ * picks from one follow-up call. If that call fails or comes back short, the
+ * seen films stay and are flagged instead. Watchlist hits are kept and marked.
+ */
+export async function groundReview(
+  review: AiReview,
+  library: Library,
+  askMore: (rejected: AiRecommendation[], kept: AiRecommendation[]) => Promise<string>
+): Promise<{ review: AiReview; grounding: GroundingReport }> {
+  const seen = indexTitles(library.seen);
+  const saved = indexTitles(library.watchlist);
+  const isSeen = (r: AiRecommendation) => !!findTitle(seen, r.film, r.year);
+
+  const used = new Set<string>();
+  const kept: AiRecommendation[] = [];
+  const rejected: AiRecommendation[] = [];
+  for (const r of review.recommendations) {
+    const k = foldTitle(r.film);
+    if (used.has(k)) continue;
+    used.add(k);
+    (isSeen(r) ? rejected : kept).push(r);
+  }
+
+  let followUp: GroundingReport["followUp"] = "skipped";
+  const fresh: AiRecommendation[] = [];
+  if (rejected.length) {
+    try {
+      const more = parseReview(await askMore(rejected, kept)).review?.recommendations || [];
+      for (const r of more) {
+        const k = foldTitle(r.film);
+        if (used.has(k) || isSeen(r)) continue;
+        used.add(k);
+        fresh.push(r);
+      }
+      followUp = "ok";
+    } catch {
+      followUp = "failed";
+    }
+  }
+
+  const recommendations = review.recommendations
+    .filter(r => kept.includes(r) || rejected.includes(r))
+    .map(r => {
+      if (!rejected.includes(r)) return r;
+      const next = fresh.shift();
+      return next ? { ...next, replaces: r.film } : { ...r, alreadySeen: true };
+    })
+    .map(r => (findTitle(saved, r.film, r.year) ? { ...r, onWatchlist: true } : r));
+
+  return {
+    review: { ...review, recommendations },
+    grounding: {
+      alreadySeen: rejected.length,
+      replaced: recommendations.filter(r => r.replaces).length,
+      onWatchlist: recommendations.filter(r => r.onWatchlist).length,
+      followUp
+    }
+  };
+}
@@ -0,0 +1,74 @@
+import { ReviewShape } from "../../src/lib/aiReview";
+import { AiMode } from "../../src/lib/modes";
+
+export type ModeContext = { language: string; tone: string; a: string; b: string };
+
+export type ModeSpec = {
+  /** Who the model is and who it talks to. */
+  persona: (c: ModeContext) => string;
+  /** Which parts of the dossier to lean on. */
+  focus: string;
+  shape: ReviewShape;
+  /** How to fill the fields of the shape. */
+  layout: (c: ModeContext) => string;
+  duo?: boolean;
+};
+
+const PATTERNS = "rating contradictions, era preference, rewatches, unrated behavior, review language";
+
+function monologue(mode: AiMode): ModeSpec {
+  return {
+    persona: () => `You are writing a direct film-friend style monologue to the user. Mode=${mode}.`,
+    focus: `Use concrete references to the uploaded film list patterns (${PATTERNS}).`,
+    shape: { paragraphs: 3, recommendations: 8 },
+    layout: () => `title is one short line; the 3 compact paragraphs speak directly to the user.`
+  };
+}
+
+export const MODES: Record<AiMode, ModeSpec> = {
+  roast: monologue("roast"),
+  praise: monologue("praise"),
+  duo_roast: {
+    duo: true,
+    persona: () => `You are roasting two friends' film taste side by side, speaking to both of them.`,
+    focus: `Use concrete references to the comparison (shared films, biggest rating disagreements, decade and tag differences, compatibility score) and to each dossier.`,
+    shape: { paragraphs: 3, recommendations: 8 },
+    layout: (c) => `title is one short line; the 3 paragraphs are one on ${c.a}, one on ${c.b}, one on them as a duo; recommendations are for a joint movie night.`
+  },
+  therapist: {
+    persona: () => `You are a film-obsessed psychoanalyst holding a session with the user about what their film taste reveals.`,
+    focus: `Read the patterns (${PATTERNS}, tags, rating drift) as symptoms and defence mechanisms, always tied to specific films.`,
+    shape: { paragraphs: 4, recommendations: 5, sections: "exactly 2: presenting symptoms (3 items) and a treatment plan (3 items)" },
+    layout: () => `title names the diagnosis; paragraphs are the session, addressed to the user; recommendations are films prescribed as therapy.`
+  },
+  critic_essay: {
+    persona: () => `You are a film critic writing an essay that treats the user's viewing life as an auteur's filmography.`,
+    focus: `Build an argument from eras, recurring films, rewatches, reviews and how ratings moved over time.`,
+    shape: { paragraphs: 6, recommendations: 3 },
+    layout: () => `title is the essay headline; paragraphs form one essay with a thesis, development and a closing turn; recommendations are the next chapters of the filmography.`
+  },
+  horoscope: {
+    persona: () => `You are an astrologer who reads film diaries instead of stars.`,
+    focus: `Treat viewing rhythm, seasons, decades and rating moods as celestial signs.`,
+    shape: { paragraphs: 3, recommendations: 4, highlights: "exactly 4: invented film sign, rising sign, lucky decade, lucky film" },
+    layout: () => `title is the reading's headline; paragraphs cover past, present and the coming months; recommendations are films the stars demand.`
+  },
+  blind_spots: {
+    persona: () => `You are a film curator auditing the user's canon gaps.`,
+    focus: `Compare the decades and national cinemas the user watches (infer countries from the titles) with the wider canon; name what is missing, not what is there.`,
+    shape: { paragraphs: 2, recommendations: 8, sections: "4 to 6, one per gap: heading names a decade, country or movement; items are 2 or 3 essential films as \"Title (Year)\"" },
+    layout: () => `title sums up the biggest gap; paragraphs explain the shape of the gaps; recommendations are the first films to watch to close them.`
+  },
+  dating_profile: {
+    persona: () => `You are writing the user's dating-app profile based only on their film taste.`,
+    focus: `Turn concrete patterns (${PATTERNS}, likes, lists) into personality.`,
+    shape: { paragraphs: 1, recommendations: 3, highlights: "exactly 3: headline, looking for, dealbreaker", sections: "exactly 3: green flags (3 items), red flags (3 items), prompts (3 items written as \"Prompt — answer\")" },
+    layout: () => `title is the profile name line; the paragraph is the bio in first person; recommendations are first-date movies.`
+  },
+  taste_archetype: {
+    persona: () => `You classify the user's film taste into one named archetype, as a personality test would.`,
+    focus: `Decide from ratings, eras, tags, rewatches and reviews; be specific rather than flattering.`,
+    shape: { paragraphs: 2, recommendations: 5, highlights: "exactly 3: archetype name, tagline, nearest other archetype", sections: "exactly 1: traits, 5 items written as \"trait: score/10 — why\"" },
+    layout: () => `title is the archetype; paragraphs explain why it fits and where the user breaks type; recommendations are films that define the archetype.`
+  }
+};
@@ -0,0 +1,292 @@
+import { Env } from "./env";
+import { readSSE } from "./sse";
+import { ChatMessage } from "../../src/lib/chat";
+
+export type ProviderId = "openai_compat" | "openai_compat_fallback" | "gemini" | "anthropic" | "ollama" | "workers_ai";
+
+/** `json` asks providers with a JSON mode to use it; `history` holds earlier chat turns that come before `user`. */
+export type Prompt = { system: string; user: string; json?: boolean; history?: ChatMessage[] };
+
+/** What the client may override; everything else comes from env. */
+export type ProviderOverrides = { apiKey?: string; baseUrl?: string; model?: string };
+
+export type ProviderConfig = { apiKey: string; baseUrl: string; model: string };
+
+export type ProviderInfo = {
+  id: ProviderId;
+  label: string;
+  defaultModel: string;
+  defaultBaseUrl: string | null;
+  /** The deployment has its own credentials (or binding), so a user key is optional. */
+  hosted: boolean;
+  acceptsKey: boolean;
+};
+
+export interface ProviderAdapter {
+  id: ProviderId;
+  label: string;
+  acceptsKey: boolean;
+  /** null when the endpoint is fixed. */
+  defaultBaseUrl(env: Env): string | null;
+  defaultModel(env: Env): string;
+  hosted(env: Env): boolean;
+  /** Picks the key and endpoint for a request; throws when the provider cannot be used. */
+  auth(env: Env, o: ProviderOverrides): { apiKey: string; baseUrl: string };
+  buildRequest(cfg: ProviderConfig, prompt: Prompt): Request;
+  /** Text from one upstream SSE payload; null marks the end of the stream. */
+  parseDelta(data: string): string | null;
+  /** Transports that are not plain fetch (bindings) return the upstream SSE response here. */
+  send?(env: Env, cfg: ProviderConfig, prompt: Prompt, signal: AbortSignal): Promise<Response>;
+}
+
+/** Upstream failure; `status` is absent for network errors. */
+export class ProviderError extends Error {
+  constructor(message: string, public status?: number, public retryAfterMs?: number) {
+    super(message);
+  }
+}
+
+const TEMPERATURE = 0.85;
+
+function normalizeBaseUrl(baseUrl: string): string {
+  const clean = baseUrl.replace(/\/$/, "");
+  return clean.endsWith("/v1") ? clean.slice(0, -3) : clean;
+}
+
+function conversation(prompt: Prompt): ChatMessage[] {
+  return [...(prompt.history || []), { role: "user", content: prompt.user }];
+}
+
+function chatMessages(prompt: Prompt) {
+  return [{ role: "system", content: prompt.system }, ...conversation(prompt)];
+}
+
+function openAIDelta(data: string): string | null {
+  if (data === "[DONE]") return null;
+  const chunk: any = JSON.parse(data);
+  return chunk?.choices?.[0]?.delta?.content || "";
+}
+
+function openAIRequest(cfg: ProviderConfig, prompt: Prompt): Request {
+  const headers: Record<string, string> = { "content-type": "application/json" };
+  if (cfg.apiKey) headers.authorization = `Bearer ${cfg.apiKey}`;
+  return new Request(normalizeBaseUrl(cfg.baseUrl) + "/v1/chat/completions", {
+    method: "POST",
+    headers,
+    body: JSON.stringify({
+      model: cfg.model,
+      messages: chatMessages(prompt),
+      temperature: TEMPERATURE,
+      stream: true,
+      ...(prompt.json ? { response_format: { type: "json_object" } } : {})
+    })
+  });
+}
+
+function openAICompatAdapter(
+  id: ProviderId,
+  label: string,
+  vars: (env: Env) => { apiKey?: string; baseUrl?: string; model?: string }
+): ProviderAdapter {
+  return {
+    id,
+    label,
+    acceptsKey: true,
+    defaultBaseUrl: env => vars(env).baseUrl || "https://api.deepseek.com",
+    defaultModel: env => vars(env).model || "deepseek-chat",
+    hosted: env => !!vars(env).apiKey,
+    auth(env, o) {
+      const baseUrl = this.defaultBaseUrl(env)!;
+      // The deployment's key only ever goes to the deployment's endpoint; another URL needs the client's own key.
+      const elsewhere = !!o.baseUrl && normalizeBaseUrl(o.baseUrl) !== normalizeBaseUrl(baseUrl);
+      const apiKey = o.apiKey || (elsewhere ? "" : vars(env).apiKey);
+      if (!apiKey) throw new Error(elsewhere ? "A custom base URL needs your own API key." : "Missing OpenAI compatible API key.");
+      return { apiKey, baseUrl: o.baseUrl || baseUrl };
+    },
+    buildRequest: openAIRequest,
+    parseDelta: openAIDelta
+  };
+}
+
+const openaiCompat = openAICompatAdapter("openai_compat", "DeepSeek / GPT / Doubao", env => ({
+  apiKey: env.OPENAI_API_KEY,
+  baseUrl: env.OPENAI_BASE_URL,
+  model: env.OPENAI_MODEL
+}));
+
+// A second OpenAI-compatible endpoint, meant as a fallback chain entry.
+const openaiCompatFallback = openAICompatAdapter("openai_compat_fallback", "OpenAI compatible (secondary)", env => ({
+  apiKey: env.OPENAI_FALLBACK_API_KEY,
+  baseUrl: env.OPENAI_FALLBACK_BASE_URL,
+  model: env.OPENAI_FALLBACK_MODEL
+}));
+
+// Gemini has no system role in contents; the instructions lead the first user turn.
+function geminiContents(prompt: Prompt) {
+  return conversation(prompt).map((m, i) => ({
+    role: m.role === "assistant" ? "model" : "user",
+    parts: [{ text: i === 0 ? `${prompt.system}\n\n${m.content}` : m.content }]
+  }));
+}
+
+const gemini: ProviderAdapter = {
+  id: "gemini",
+  label: "Gemini",
+  acceptsKey: true,
+  defaultBaseUrl: () => null,
+  defaultModel: env => env.GEMINI_MODEL || "gemini-1.5-flash",
+  hosted: env => !!env.GEMINI_API_KEY,
+  auth(env, o) {
+    const apiKey = o.apiKey || env.GEMINI_API_KEY;
+    if (!apiKey) throw new Error("Missing Gemini API key.");
+    return { apiKey, baseUrl: "https://generativelanguage.googleapis.com" };
+  },
+  buildRequest(cfg, prompt) {
+    const url = `${cfg.baseUrl}/v1beta/models/${encodeURIComponent(cfg.model)}:streamGenerateContent?alt=sse&key=${encodeURIComponent(cfg.apiKey)}`;
+    return new Request(url, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ contents: geminiContents(prompt), generationConfig: { temperature: TEMPERATURE, ...(prompt.json ? { responseMimeType: "application/json" } : {}) } })
+    });
+  },
+  parseDelta(data) {
+    const chunk: any = JSON.parse(data);
+    return chunk?.candidates?.[0]?.content?.parts?.map((p: any) => p.text || "").join("") || "";
+  }
+};
+
+const anthropic: ProviderAdapter = {
+  id: "anthropic",
+  label: "Anthropic",
+  acceptsKey: true,
+  defaultBaseUrl: () => null,
+  defaultModel: env => env.ANTHROPIC_MODEL || "claude-3-5-haiku-latest",
+  hosted: env => !!env.ANTHROPIC_API_KEY,
+  auth(env, o) {
+    const apiKey = o.apiKey || env.ANTHROPIC_API_KEY;
+    if (!apiKey) throw new Error("Missing Anthropic API key.");
+    return { apiKey, baseUrl: "https://api.anthropic.com" };
+  },
+  buildRequest(cfg, prompt) {
+    return new Request(`${cfg.baseUrl}/v1/messages`, {
+      method: "POST",
+      headers: { "content-type": "application/json", "x-api-key": cfg.apiKey, "anthropic-version": "2023-06-01" },
+      body: JSON.stringify({
+        model: cfg.model,
+        system: prompt.system,
+        messages: conversation(prompt),
+        max_tokens: 4096,
+        temperature: TEMPERATURE,
+        stream: true
+      })
+    });
+  },
+  parseDelta(data) {
+    const chunk: any = JSON.parse(data);
+    if (chunk?.type === "error") throw new Error(chunk?.error?.message || "Anthropic stream error.");
+    if (chunk?.type === "message_stop") return null;
+    return chunk?.type === "content_block_delta" ? chunk?.delta?.text || "" : "";
+  }
+};
+
+// Ollama serves an OpenAI-compatible endpoint; it only answers where the function can reach it (wrangler pages dev, or a tunnel).
+const ollama: ProviderAdapter = {
+  id: "ollama",
+  label: "Ollama",
+  acceptsKey: false,
+  defaultBaseUrl: env => env.OLLAMA_BASE_URL || "http://localhost:11434",
+  defaultModel: env => env.OLLAMA_MODEL || "llama3.1",
+  hosted: env => !!env.OLLAMA_BASE_URL,
+  // Ollama takes no key, so every request draws on the site's quota: a client URL is only honoured where nothing is counted (local dev without RLKV or RATE_LIMITER).
+  auth(env, o) {
+    if (env.OLLAMA_BASE_URL) return { apiKey: "", baseUrl: env.OLLAMA_BASE_URL };
+    if (o.baseUrl && (env.RLKV || env.RATE_LIMITER)) throw new Error("This site has no Ollama server configured.");
+    return { apiKey: "", baseUrl: o.baseUrl || this.defaultBaseUrl(env)! };
+  },
+  buildRequest: openAIRequest,
+  parseDelta: openAIDelta
+};
+
+const workersAI: ProviderAdapter = {
+  id: "workers_ai",
+  label: "Cloudflare Workers AI",
+  acceptsKey: false,
+  defaultBaseUrl: () => null,
+  defaultModel: env => env.WORKERS_AI_MODEL || "@cf/meta/llama-3.1-8b-instruct",
+  hosted: env => !!env.AI,
+  auth(env) {
+    if (!env.AI) throw new Error("Workers AI binding (AI) is not configured.");
+    return { apiKey: "", baseUrl: "" };
+  },
+  buildRequest() {
+    throw new Error("Workers AI runs through the AI binding.");
+  },
+  async send(env, cfg, prompt) {
+    const run = env.AI!.run as unknown as (model: string, input: unknown) => Promise<ReadableStream>;
+    const stream = await run.call(env.AI, cfg.model, { messages: chatMessages(prompt), temperature: TEMPERATURE, stream: true });
+    return new Response(stream, { headers: { "content-type": "text/event-stream" } });
+  },
+  parseDelta(data) {
+    if (data === "[DONE]") return null;
+    const chunk: any = JSON.parse(data);
+    return chunk?.response || "";
+  }
+};
+
+export const PROVIDERS: Record<ProviderId, ProviderAdapter> = {
+  openai_compat: openaiCompat,
+  openai_compat_fallback: openaiCompatFallback,
+  gemini,
+  anthropic,
+  ollama,
+  workers_ai: workersAI
+};
+
+export function defaultProviderId(env: Env): ProviderId {
+  const id = env.AI_DEFAULT_PROVIDER as ProviderId | undefined;
+  return id && PROVIDERS[id] ? id : "openai_compat";
+}
+
+/** Unknown ids and "default" resolve to the deployment's default provider. */
+export function getProvider(env: Env, id: string | undefined): ProviderAdapter {
+  return (id && PROVIDERS[id as ProviderId]) || PROVIDERS[defaultProviderId(env)];
+}
+
+export function describeProvider(env: Env, p: ProviderAdapter): ProviderInfo {
+  return {
+    id: p.id,
+    label: p.label,
+    defaultModel: p.defaultModel(env),
+    defaultBaseUrl: p.defaultBaseUrl(env),
+    hosted: p.hosted(env),
+    acceptsKey: p.acceptsKey
+  };
+}
+
+/** The request brings its own key for a provider that takes one, so the site's credentials are not spent on it. */
+export function usesOwnKey(env: Env, requested: string | undefined, o: ProviderOverrides): boolean {
+  return !!o.apiKey?.trim() && getProvider(env, requested).acceptsKey;
+}
+
+export function resolveConfig(env: Env, p: ProviderAdapter, o: ProviderOverrides): ProviderConfig {
+  return { ...p.auth(env, o), model: o.model || p.defaultModel(env) };
+}
+
+/** Streams text deltas from a provider until it signals the end or closes the stream. */
+export async function* streamCompletion(env: Env, p: ProviderAdapter, cfg: ProviderConfig, prompt: Prompt, signal: AbortSignal): AsyncGenerator<string> {
+  const res = await (p.send ? p.send(env, cfg, prompt, signal) : fetch(p.buildRequest(cfg, prompt), { signal })).catch((e) => {
+    if (signal.aborted) throw e;
+    throw new ProviderError(e?.message || `${p.label} is unreachable.`);
+  });
+  if (!res.ok) {
+    const data: any = await res.json().catch(() => ({}));
+    const message = typeof data?.error === "string" ? data.error : data?.error?.message;
+    const retryAfter = Number(res.headers.get("retry-after"));
+    throw new ProviderError(message || `${p.label} error (${res.status})`, res.status, retryAfter > 0 ? retryAfter * 1000 : undefined);
+  }
+  for await (const data of readSSE(res)) {
+    const delta = p.parseDelta(data);
+    if (delta === null) return;
+    if (delta) yield delta;
+  }
+}
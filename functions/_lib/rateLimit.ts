@@ -0,0 +1,185 @@
+import { Env } from "./env";
+import { json } from "./http";
+import { CounterRequest, CounterResponse } from "../../workers/rate-limiter/index";
+
+/** Each scope has its own daily counter per IP; chat turns are cheaper than full reviews, so they get more. */
+export type RateScope = "ai" | "chat";
+
+export type QuotaStatus = {
+  scope: RateScope;
+  /** Bypass IP or the user's own key: nothing is counted. */
+  exempt: boolean;
+  /** Which budget ran out when `ok` is false. */
+  exhausted?: "ip" | "global";
+  /** The tighter of the per-IP and global budgets; null when exempt or unlimited. */
+  limit: number | null;
+  remaining: number | null;
+  /** Unix seconds of the next UTC midnight, when every counter starts over. */
+  reset: number;
+};
+
+export type Quota = QuotaStatus & {
+  ok: boolean;
+  /** Counter keys taken by this request, given back by refundQuota. */
+  taken: string[];
+};
+
+type CounterStore = {
+  /** Adds one unless the counter already reached `limit`; returns the count after the call. */
+  take(key: string, limit: number | null): Promise<CounterResponse>;
+  give(key: string): Promise<void>;
+  peek(key: string): Promise<number>;
+};
+
+const TTL_SECONDS = 172800;
+
+function todayKey(): string { return new Date().toISOString().slice(0, 10); }
+
+function nextReset(): number {
+  const d = new Date();
+  return Math.floor(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate() + 1) / 1000);
+}
+
+function limitVar(raw: string | undefined, fallback: number | null): number | null {
+  const n = Number(raw);
+  return raw !== undefined && raw !== "" && Number.isFinite(n) && n >= 0 ? n : fallback;
+}
+
+function ipLimit(env: Env, scope: RateScope): number {
+  return scope === "chat" ? limitVar(env.AI_CHAT_DAILY_LIMIT, 20)! : limitVar(env.AI_DAILY_LIMIT, 2)!;
+}
+
+function isBypassIp(env: Env, ip: string): boolean {
+  const raw = env.AI_BYPASS_IPS || "";
+  return raw.split(",").map((s) => s.trim()).filter(Boolean).includes(ip);
+}
+
+// Get-then-put: two requests racing on one key can both pass. Good enough without a Durable Object.
+function kvStore(kv: KVNamespace): CounterStore {
+  const read = async (key: string) => Number((await kv.get(key)) || "0");
+  return {
+    async take(key, limit) {
+      const cur = await read(key);
+      if (limit !== null && cur >= limit) return { ok: false, count: cur };
+      await kv.put(key, String(cur + 1), { expirationTtl: TTL_SECONDS });
+      return { ok: true, count: cur + 1 };
+    },
+    async give(key) {
+      const cur = await read(key);
+      if (cur > 0) await kv.put(key, String(cur - 1), { expirationTtl: TTL_SECONDS });
+    },
+    peek: read
+  };
+}
+
+function durableStore(ns: DurableObjectNamespace): CounterStore {
+  const call = async (key: string, req: CounterRequest): Promise<CounterResponse> => {
+    const res = await ns.get(ns.idFromName(key)).fetch("https://rate-limiter/", { method: "POST", body: JSON.stringify(req) });
+    if (!res.ok) throw new Error(`Rate limiter error (${res.status})`);
+    return (await res.json()) as CounterResponse;
+  };
+  return {
+    take: (key, limit) => call(key, { op: "take", limit: limit ?? undefined, ttlMs: TTL_SECONDS * 1000 }),
+    give: async (key) => { await call(key, { op: "give", ttlMs: TTL_SECONDS * 1000 }); },
+    peek: async (key) => (await call(key, { op: "peek", ttlMs: TTL_SECONDS * 1000 })).count
+  };
+}
+
+/** The Durable Object when bound, KV when it is not or when the object cannot be reached. */
+function counterStore(env: Env): CounterStore | null {
+  const kv = env.RLKV ? kvStore(env.RLKV) : null;
+  if (!env.RATE_LIMITER) return kv;
+  const durable = durableStore(env.RATE_LIMITER);
+  if (!kv) return durable;
+  return {
+    take: (key, limit) => durable.take(key, limit).catch(() => kv.take(key, limit)),
+    give: (key) => durable.give(key).catch(() => kv.give(key)),
+    peek: (key) => durable.peek(key).catch(() => kv.peek(key))
+  };
+}
+
+function counterKeys(scope: RateScope, ip: string) {
+  const day = todayKey();
+  return { ip: `${scope}:${day}:${ip}`, global: `global:${day}` };
+}
+
+function exemptStatus(scope: RateScope): QuotaStatus {
+  return { scope, exempt: true, limit: null, remaining: null, reset: nextReset() };
+}
+
+/**
+ * Counts one house-key request against the IP's daily budget for the scope and
+ * against AI_GLOBAL_DAILY_LIMIT (shared by every scope) when that is set.
+ */
+export async function takeQuota(env: Env, ip: string, scope: RateScope, ownKey: boolean): Promise<Quota> {
+  if (ownKey || isBypassIp(env, ip)) return { ...exemptStatus(scope), ok: true, taken: [] };
+  const perIp = ipLimit(env, scope);
+  const global = limitVar(env.AI_GLOBAL_DAILY_LIMIT, null);
+  const store = counterStore(env);
+  const base = { scope, exempt: false, reset: nextReset() };
+  if (!store) return { ...base, ok: true, limit: perIp, remaining: perIp, taken: [] };
+
+  const keys = counterKeys(scope, ip);
+  const mine = await store.take(keys.ip, perIp);
+  if (!mine.ok) return { ...base, ok: false, exhausted: "ip", limit: perIp, remaining: 0, taken: [] };
+  let remaining = perIp - mine.count;
+  let limit = perIp;
+  const taken = [keys.ip];
+  if (global !== null) {
+    const all = await store.take(keys.global, global);
+    if (!all.ok) {
+      await store.give(keys.ip);
+      return { ...base, ok: false, exhausted: "global", limit: global, remaining: 0, taken: [] };
+    }
+    taken.push(keys.global);
+    if (global - all.count < remaining) {
+      remaining = global - all.count;
+      limit = global;
+    }
+  }
+  return { ...base, ok: true, limit, remaining: Math.max(0, remaining), taken };
+}
+
+/** Gives back what takeQuota counted when no provider produced an answer. */
+export async function refundQuota(env: Env, q: Quota): Promise<Quota> {
+  const store = counterStore(env);
+  if (!store || !q.taken.length) return q;
+  for (const key of q.taken) await store.give(key);
+  return { ...q, remaining: q.remaining === null ? null : q.remaining + 1, taken: [] };
+}
+
+/** Read-only view for GET /api/quota. */
+export async function peekQuota(env: Env, ip: string, scope: RateScope): Promise<QuotaStatus> {
+  if (isBypassIp(env, ip)) return exemptStatus(scope);
+  const perIp = ipLimit(env, scope);
+  const global = limitVar(env.AI_GLOBAL_DAILY_LIMIT, null);
+  const store = counterStore(env);
+  const base = { scope, exempt: false, reset: nextReset() };
+  if (!store) return { ...base, limit: perIp, remaining: perIp };
+  const keys = counterKeys(scope, ip);
+  const mine = perIp - (await store.peek(keys.ip));
+  const all = global === null ? Infinity : global - (await store.peek(keys.global));
+  return all < mine
+    ? { ...base, limit: global, remaining: Math.max(0, all), ...(all <= 0 ? { exhausted: "global" as const } : {}) }
+    : { ...base, limit: perIp, remaining: Math.max(0, mine), ...(mine <= 0 ? { exhausted: "ip" as const } : {}) };
+}
+
+/** Without `ok` (a read-only status) no Retry-After is sent. */
+export function quotaHeaders(q: QuotaStatus & { ok?: boolean }): Record<string, string> {
+  if (q.limit === null || q.remaining === null) return {};
+  return {
+    "x-ratelimit-limit": String(q.limit),
+    "x-ratelimit-remaining": String(q.remaining),
+    "x-ratelimit-reset": String(q.reset),
+    "x-ratelimit-scope": q.scope,
+    ...(q.ok !== false ? {} : { "retry-after": String(Math.max(0, q.reset - Math.floor(Date.now() / 1000))) })
+  };
+}
+
+/** 429 for a request takeQuota turned down. */
+export function quotaExceeded(q: Quota): Response {
+  const error = q.exhausted === "global"
+    ? "The site's AI budget for today is used up. Add your own API key to keep going."
+    : q.scope === "chat" ? "Chat limit reached for today." : "Rate limit reached for today.";
+  return json({ error, remaining: 0, exhausted: q.exhausted }, { status: 429, headers: quotaHeaders(q) });
+}
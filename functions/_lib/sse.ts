@@ -0,0 +1,55 @@
+/** Yields the `data:` payloads of an upstream server-sent event stream. */
+export async function* readSSE(res: Response): AsyncGenerator<string> {
+  if (!res.body) return;
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buf = "";
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buf += decoder.decode(value, { stream: true });
+    let i: number;
+    while ((i = buf.indexOf("\n")) >= 0) {
+      const line = buf.slice(0, i).replace(/\r$/, "");
+      buf = buf.slice(i + 1);
+      if (line.startsWith("data:")) yield line.slice(5).trim();
+    }
+  }
+}
+
+export function sseEvent(data: unknown, event?: string): string {
+  return `${event ? `event: ${event}\n` : ""}data: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Streams `{delta}` events to the browser, then whatever `done` builds from the
+ * full text as a "done" event (or an "error" event). Cancelling the response
+ * aborts the upstream request.
+ */
+export function relaySSE(first: string, deltas: AsyncIterable<string>, upstream: AbortController, done: (text: string) => Promise<unknown>, headers?: Record<string, string>): Response {
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        let text = first;
+        controller.enqueue(encoder.encode(sseEvent({ delta: first })));
+        for await (const delta of deltas) {
+          text += delta;
+          controller.enqueue(encoder.encode(sseEvent({ delta })));
+        }
+        controller.enqueue(encoder.encode(sseEvent(await done(text), "done")));
+      } catch (e: any) {
+        if (!upstream.signal.aborted) controller.enqueue(encoder.encode(sseEvent({ error: e?.message || "AI error." }, "error")));
+      } finally {
+        if (!upstream.signal.aborted) controller.close();
+      }
+    },
+    // The browser went away (or pressed cancel): stop paying for tokens nobody reads.
+    cancel() {
+      upstream.abort();
+    }
+  });
+  return new Response(stream, {
+    headers: { "content-type": "text/event-stream; charset=utf-8", "cache-control": "no-cache", ...(headers || {}) }
+  });
+}
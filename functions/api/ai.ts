@@ -1,148 +1,161 @@
-export interface Env {
-  RLKV?: KVNamespace;
-  OPENAI_API_KEY?: string;
-  OPENAI_BASE_URL?: string;
-  OPENAI_MODEL?: string;
-  GEMINI_API_KEY?: string;
-  GEMINI_MODEL?: string;
-  AI_DAILY_LIMIT?: string;
-  AI_BYPASS_IPS?: string;
-}
-
-type Provider = "default" | "openai_compat" | "gemini";
-type Mode = "praise" | "roast";
+import { Env } from "../_lib/env";
+import { ChainFailedError, openWithFallback } from "../_lib/fallback";
+import { getProvider, Prompt, usesOwnKey } from "../_lib/providers";
+import { json, getIp } from "../_lib/http";
+import { peekQuota, quotaExceeded, quotaHeaders, refundQuota, takeQuota } from "../_lib/rateLimit";
+import { cacheKey, readCached, responseCache, writeCached } from "../_lib/cache";
+import { relaySSE } from "../_lib/sse";
+import { GroundingReport, groundReview, readLibrary } from "../_lib/grounding";
+import { MODES } from "../_lib/modes";
+import { AiRecommendation, ParsedReview, parseReview, reviewJsonShape } from "../../src/lib/aiReview";
+import { AiMode, isAiMode } from "../../src/lib/modes";
 
 type Body = {
-  provider?: Provider;
+  provider?: string;
   apiKey?: string;
   baseUrl?: string;
   model?: string;
   language?: string;
-  mode?: Mode;
+  mode?: AiMode;
   roastLevel?: 1 | 2 | 3;
   profile?: unknown;
+  // Duo modes only: the second export, the client-side comparison and display names.
+  friendProfile?: unknown;
+  comparison?: unknown;
+  labels?: { a?: string; b?: string };
+  // Watched films and watchlist as [title, year] pairs, used to ground recommendations.
+  library?: unknown;
+  // Respond with server-sent events ({delta} chunks, then a "done" event) instead of one JSON body.
+  stream?: boolean;
+  // Skip the cache lookup; the fresh answer replaces the cached one.
+  regenerate?: boolean;
+  // Answers made with the user's own key are only cached when they ask for it.
+  cacheOwnKey?: boolean;
 };
 
-function json(data: unknown, init?: ResponseInit) {
-  return new Response(JSON.stringify(data), {
-    ...init,
-    headers: { "content-type": "application/json; charset=utf-8", ...(init?.headers || {}) }
-  });
-}
-
-function getIp(req: Request): string {
-  return req.headers.get("cf-connecting-ip") || req.headers.get("x-forwarded-for")?.split(",")[0].trim() || "unknown";
-}
-
-function todayKey(): string { return new Date().toISOString().slice(0, 10); }
-
-function isBypassIp(env: Env, ip: string): boolean {
-  const raw = env.AI_BYPASS_IPS || "";
-  const list = raw.split(",").map((s) => s.trim()).filter(Boolean);
-  return list.includes(ip) || ip === "5.34.216.81";
-}
-
-async function enforceRateLimit(env: Env, ip: string): Promise<{ ok: boolean; remaining: number }> {
-  const limit = Number(env.AI_DAILY_LIMIT || "2");
-  if (isBypassIp(env, ip)) return { ok: true, remaining: 999999 };
-  if (!env.RLKV) return { ok: true, remaining: limit };
-  const key = `ai:${todayKey()}:${ip}`;
-  const cur = Number((await env.RLKV.get(key)) || "0");
-  if (cur >= limit) return { ok: false, remaining: 0 };
-  const next = cur + 1;
-  await env.RLKV.put(key, String(next), { expirationTtl: 172800 });
-  return { ok: true, remaining: Math.max(0, limit - next) };
-}
+type Answer = ParsedReview & { grounding?: GroundingReport };
 
-function buildPrompt(body: Body): { system: string; user: string } {
+function buildPrompt(body: Body): Prompt {
   const language = (body.language || "en").trim();
-  const mode = body.mode || "roast";
+  const mode = isAiMode(body.mode) ? body.mode : "roast";
+  const spec = MODES[mode];
   const level = body.roastLevel || 2;
   const strictness = level === 1 ? "mild and playful" : level === 2 ? "sharp and witty" : "aggressive but still respectful";
+  const c = { language, tone: strictness, a: body.labels?.a || "Person A", b: body.labels?.b || "Person B" };
 
   const system =
-    `You are writing a direct film-friend style monologue to the user. ` +
-    `Output ONLY in ${language}. Mode=${mode}. Tone=${strictness}. ` +
-    `Hard rules: no markdown headings, no numbered template, no system-style wording, no fluff. ` +
-    `Use concrete references to the uploaded film list patterns (rating contradictions, era preference, rewatches, unrated behavior, review language). ` +
-    `Structure: (A) 1 short title line, (B) 3 compact paragraphs speaking directly to the user, (C) 8 bullet recommendations with specific movie names and one-line reason.`;
-
-  const user = `Full Letterboxd dossier JSON:\n${JSON.stringify(body.profile || {}, null, 2)}`;
-  return { system, user };
+    `${spec.persona(c)} ` +
+    `Output ONLY in ${language}. Tone=${strictness}. ` +
+    `Hard rules: no markdown, no system-style wording, no fluff. ` +
+    `${spec.focus} ` +
+    `Respond with ONE JSON object and nothing else, shaped as ${reviewJsonShape(spec.shape)}. ` +
+    `${spec.layout(c)} Every text value is in ${language}.`;
+
+  const user = spec.duo
+    ? `Comparison JSON:\n${JSON.stringify(body.comparison || {})}\n\n` +
+      `${c.a} dossier JSON:\n${JSON.stringify(body.profile || {})}\n\n` +
+      `${c.b} dossier JSON:\n${JSON.stringify(body.friendProfile || {})}`
+    : `Full Letterboxd dossier JSON:\n${JSON.stringify(body.profile || {})}`;
+  return { system, user, json: true };
 }
 
-function normalizeBaseUrl(baseUrl: string): string {
-  const clean = baseUrl.replace(/\/$/, "");
-  return clean.endsWith("/v1") ? clean.slice(0, -3) : clean;
-}
-
-async function callOpenAICompat(args: { apiKey: string; baseUrl: string; model: string; system: string; user: string; }): Promise<string> {
-  const url = normalizeBaseUrl(args.baseUrl) + "/v1/chat/completions";
-  const res = await fetch(url, {
-    method: "POST",
-    headers: { "content-type": "application/json", "authorization": `Bearer ${args.apiKey}` },
-    body: JSON.stringify({
-      model: args.model,
-      messages: [{ role: "system", content: args.system }, { role: "user", content: args.user }],
-      temperature: 0.85
-    })
+/** Everything the answer depends on: the resolved provider and model plus the prompt inputs. */
+function answerKey(env: Env, body: Body, prompt: Prompt): Promise<string> {
+  const p = getProvider(env, body.provider);
+  const mode = isAiMode(body.mode) ? body.mode : "roast";
+  return cacheKey({
+    provider: p.id,
+    model: body.model?.trim() || p.defaultModel(env),
+    baseUrl: body.baseUrl?.trim() || undefined,
+    mode,
+    level: body.roastLevel || 2,
+    language: (body.language || "en").trim().toLowerCase(),
+    instructions: prompt.system,
+    profile: body.profile,
+    ...(MODES[mode].duo ? { friendProfile: body.friendProfile, comparison: body.comparison, labels: body.labels } : {}),
+    library: body.library
   });
-  const data: any = await res.json().catch(() => ({}));
-  if (!res.ok) throw new Error(data?.error?.message || `OpenAI compatible error (${res.status})`);
-  const text = data?.choices?.[0]?.message?.content;
-  if (!text) throw new Error("No text in model response.");
-  return String(text);
 }
 
-async function callGemini(args: { apiKey: string; model: string; system: string; user: string; }): Promise<string> {
-  const url = `https://generativelanguage.googleapis.com/v1beta/models/${encodeURIComponent(args.model)}:generateContent?key=${encodeURIComponent(args.apiKey)}`;
-  const res = await fetch(url, {
-    method: "POST",
-    headers: { "content-type": "application/json" },
-    body: JSON.stringify({ contents: [{ role: "user", parts: [{ text: `${args.system}\n\n${args.user}` }] }], generationConfig: { temperature: 0.85 } })
-  });
-  const data: any = await res.json().catch(() => ({}));
-  if (!res.ok) throw new Error(data?.error?.message || `Gemini error (${res.status})`);
-  const text = data?.candidates?.[0]?.content?.parts?.map((p: any) => p.text).join("") || "";
-  if (!text) throw new Error("No text in model response.");
-  return String(text);
+function buildReplacementPrompt(body: Body, rejected: AiRecommendation[], kept: AiRecommendation[]): Prompt {
+  const language = (body.language || "en").trim();
+  const list = (rs: AiRecommendation[]) => rs.map((r) => `${r.film}${r.year ? ` (${r.year})` : ""}${r.reason ? ` — ${r.reason}` : ""}`).join("\n");
+  const system =
+    `You replace film recommendations the user has already seen. ` +
+    `Respond with ONE JSON object and nothing else, shaped as {"recommendations": [{"film": string, "year": number, "reason": string}]} ` +
+    `with ${rejected.length * 3} items in order of preference; each reason is one line in ${language}.`;
+  const user =
+    `Already watched, suggest different films in the same spirit:\n${list(rejected)}\n\n` +
+    `Already recommended, do not repeat:\n${list(kept) || "(none)"}`;
+  return { system, user, json: true };
 }
 
 export const onRequestPost: PagesFunction<Env> = async (ctx) => {
-  const ip = getIp(ctx.request);
-  const rl = await enforceRateLimit(ctx.env, ip);
-  if (!rl.ok) return json({ error: "Rate limit reached for today.", remaining: 0 }, { status: 429 });
-
   const body = (await ctx.request.json().catch(() => null)) as Body | null;
   if (!body) return json({ error: "Invalid JSON." }, { status: 400 });
 
-  const { system, user } = buildPrompt(body);
-  const provider = (body.provider || "default") as Provider;
+  const ip = getIp(ctx.request);
+  const ownKey = usesOwnKey(ctx.env, body.provider, body);
+  const prompt = buildPrompt(body);
+  const cache = !ownKey || body.cacheOwnKey ? responseCache(ctx.env) : null;
+  const key = cache ? await answerKey(ctx.env, body, prompt) : null;
+
+  // A cached answer costs nothing, so it is served before (and without) taking quota.
+  if (cache && key && !body.regenerate) {
+    const hit = await readCached<Answer & { text: string }>(cache.kv, key);
+    if (hit) {
+      const status = ownKey ? null : await peekQuota(ctx.env, ip, "ai");
+      const headers = status ? quotaHeaders(status) : {};
+      const { text, ...answer } = hit.result;
+      const meta = { provider: hit.provider, model: hit.model, remaining: status?.remaining ?? null, attempts: [], cachedAt: hit.at };
+      if (!body.stream) return json({ text, ...answer, ...meta }, { status: 200, headers });
+      return relaySSE(text, (async function* () {})(), new AbortController(), async () => ({ ...answer, ...meta }), headers);
+    }
+  }
+
+  const quota = await takeQuota(ctx.env, ip, "ai", ownKey);
+  if (!quota.ok) return quotaExceeded(quota);
+  const headers = quotaHeaders(quota);
+  const upstream = new AbortController();
 
   try {
-    let usedProvider = provider;
-    let usedModel = "";
-    let text = "";
-
-    if (provider === "gemini") {
-      const apiKey = body.apiKey || ctx.env.GEMINI_API_KEY;
-      if (!apiKey) throw new Error("Missing Gemini API key.");
-      const model = body.model || ctx.env.GEMINI_MODEL || "gemini-1.5-flash";
-      usedProvider = "gemini";
-      usedModel = model;
-      text = await callGemini({ apiKey, model, system, user });
-    } else {
-      const apiKey = body.apiKey || ctx.env.OPENAI_API_KEY;
-      if (!apiKey) throw new Error("Missing OpenAI compatible API key.");
-      const baseUrl = body.baseUrl || ctx.env.OPENAI_BASE_URL || "https://api.deepseek.com";
-      const model = body.model || ctx.env.OPENAI_MODEL || "deepseek-chat";
-      usedProvider = "openai_compat";
-      usedModel = model;
-      text = await callOpenAICompat({ apiKey, baseUrl, model, system, user });
+    // Resolves once some provider produced its first token, so failures still surface as a plain JSON error.
+    const { provider, model, first, rest: deltas, attempts } = await openWithFallback(ctx.env, body.provider, body, prompt, upstream.signal);
+    const meta = { provider: provider.id, model, remaining: quota.remaining, attempts };
+
+    // Validates the finished answer, then swaps out recommendations the user has already seen (same quota slot).
+    const finish = async (text: string): Promise<Answer> => {
+      const parsed = parseReview(text);
+      const library = readLibrary(body.library);
+      if (!parsed.review || !library) return parsed;
+      return { ...parsed, ...(await groundReview(parsed.review, library, async (rejected, kept) => {
+        const more = await openWithFallback(ctx.env, body.provider, body, buildReplacementPrompt(body, rejected, kept), upstream.signal);
+        let out = more.first;
+        for await (const delta of more.rest) out += delta;
+        return out;
+      })) };
+    };
+
+    // Only answers that parsed are worth keeping.
+    const complete = async (text: string) => {
+      const answer = await finish(text);
+      if (cache && key && answer.review) await writeCached(cache.kv, key, cache.ttl, { result: { text, ...answer }, provider: provider.id, model, at: new Date().toISOString() });
+      return answer;
+    };
+
+    if (!body.stream) {
+      let text = first;
+      for await (const delta of deltas) text += delta;
+      return json({ text, ...(await complete(text)), ...meta }, { status: 200, headers });
     }
 
-    return json({ text, provider: usedProvider, model: usedModel, remaining: rl.remaining }, { status: 200 });
+    // The validated, repaired and grounded structure goes out once the model is done.
+    return relaySSE(first, deltas, upstream, async (text) => ({ ...(await complete(text)), ...meta }), headers);
   } catch (e: any) {
-    return json({ error: e?.message || "AI error.", remaining: rl.remaining }, { status: 500 });
+    if (e instanceof ChainFailedError) {
+      const refunded = await refundQuota(ctx.env, quota);
+      return json({ error: e.message, remaining: refunded.remaining, attempts: e.attempts }, { status: 502, headers: quotaHeaders(refunded) });
+    }
+    return json({ error: e?.message || "AI error.", remaining: quota.remaining }, { status: 500, headers });
   }
 };
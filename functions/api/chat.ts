@@ -0,0 +1,66 @@
+import { Env } from "../_lib/env";
+import { ChainFailedError, openWithFallback } from "../_lib/fallback";
+import { Prompt, usesOwnKey } from "../_lib/providers";
+import { json, getIp } from "../_lib/http";
+import { quotaExceeded, quotaHeaders, refundQuota, takeQuota } from "../_lib/rateLimit";
+import { relaySSE } from "../_lib/sse";
+import { ChatMessage, readChatMessages } from "../../src/lib/chat";
+
+type Body = {
+  provider?: string;
+  apiKey?: string;
+  baseUrl?: string;
+  model?: string;
+  language?: string;
+  profile?: unknown;
+  // The one-shot review the conversation follows up on, as the model wrote it.
+  review?: string;
+  // Full history held by the client, oldest first, ending with the new question.
+  messages?: unknown;
+  stream?: boolean;
+};
+
+const REVIEW_CHARS = 6000;
+
+function buildChatPrompt(body: Body, messages: ChatMessage[]): Prompt {
+  const language = (body.language || "en").trim();
+  const review = (body.review || "").slice(0, REVIEW_CHARS);
+  const system =
+    `You are the user's film friend, answering follow-up questions about their taste in a chat. ` +
+    `Answer ONLY in ${language}, in plain conversational text without markdown headings, under 150 words unless asked for more. ` +
+    `Ground every claim in the dossier below and name the films or fields it rests on; if the dossier does not show something, say so instead of guessing. ` +
+    `Recommend films as "Title (Year)" and never ones the dossier lists as watched.` +
+    (review ? `\n\nYour earlier review of this user:\n${review}` : "") +
+    `\n\nLetterboxd dossier JSON:\n${JSON.stringify(body.profile || {})}`;
+  return { system, user: messages[messages.length - 1].content, history: messages.slice(0, -1) };
+}
+
+export const onRequestPost: PagesFunction<Env> = async (ctx) => {
+  const body = (await ctx.request.json().catch(() => null)) as Body | null;
+  if (!body) return json({ error: "Invalid JSON." }, { status: 400 });
+  const messages = readChatMessages(body.messages);
+  if (!messages.length) return json({ error: "Ask a question first." }, { status: 400 });
+
+  const quota = await takeQuota(ctx.env, getIp(ctx.request), "chat", usesOwnKey(ctx.env, body.provider, body));
+  if (!quota.ok) return quotaExceeded(quota);
+  const headers = quotaHeaders(quota);
+
+  const upstream = new AbortController();
+  try {
+    const { provider, model, first, rest: deltas, attempts } = await openWithFallback(ctx.env, body.provider, body, buildChatPrompt(body, messages), upstream.signal);
+    const meta = { provider: provider.id, model, remaining: quota.remaining, attempts };
+
+    if (!body.stream) {
+      let text = first;
+      for await (const delta of deltas) text += delta;
+      return json({ text, ...meta }, { status: 200, headers });
+    }
+    return relaySSE(first, deltas, upstream, async () => meta, headers);
+  } catch (e: any) {
+    if (e instanceof ChainFailedError) {
+      const refunded = await refundQuota(ctx.env, quota);
+      return json({ error: e.message, remaining: refunded.remaining, attempts: e.attempts }, { status: 502, headers: quotaHeaders(refunded) });
+    }
+    return json({ error: e?.message || "AI error.", remaining: quota.remaining }, { status: 500, headers });
+  }
+};
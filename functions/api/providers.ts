@@ -0,0 +1,9 @@
+import { Env } from "../_lib/env";
+import { defaultProviderId, describeProvider, PROVIDERS } from "../_lib/providers";
+
+export const onRequestGet: PagesFunction<Env> = async (ctx) => {
+  const providers = Object.values(PROVIDERS).map((p) => describeProvider(ctx.env, p));
+  return new Response(JSON.stringify({ default: defaultProviderId(ctx.env), providers }), {
+    headers: { "content-type": "application/json; charset=utf-8" }
+  });
+};
@@ -0,0 +1,10 @@
+import { Env } from "../_lib/env";
+import { getIp, json } from "../_lib/http";
+import { peekQuota } from "../_lib/rateLimit";
+
+/** What is left today for this IP; requests on your own API key are never counted. */
+export const onRequestGet: PagesFunction<Env> = async (ctx) => {
+  const ip = getIp(ctx.request);
+  const [ai, chat] = await Promise.all([peekQuota(ctx.env, ip, "ai"), peekQuota(ctx.env, ip, "chat")]);
+  return json({ ai, chat, ownKeyExempt: true }, { headers: { "cache-control": "no-store" } });
+};
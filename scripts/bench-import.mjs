@@ -0,0 +1,86 @@
+import JSZip from 'jszip';
+import { runImport } from '../.verify/importPipeline.js';
+
+// Total CSV rows in the synthetic export; pass another count as the first argument.
+const ROWS = Number(process.argv[2]) || 20000;
+const RUNS = 3;
+
+function seeded(seed) {
+  let s = seed >>> 0;
+  return () => {
+    s = (s * 1664525 + 1013904223) >>> 0;
+    return s / 4294967296;
+  };
+}
+
+function csvCell(v) {
+  const s = String(v ?? '');
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+function csv(header, rows) {
+  return [header.join(','), ...rows.map((r) => r.map(csvCell).join(','))].join('\n');
+}
+
+function isoDay(rand) {
+  const d = new Date(Date.UTC(2012, 0, 1) + Math.floor(rand() * 13 * 365) * 86400000);
+  return d.toISOString().slice(0, 10);
+}
+
+// Shares of ROWS per table, roughly what a long-time diarist's export looks like.
+async function syntheticExport(rows) {
+  const rand = seeded(20000);
+  const filmCount = Math.round(rows * 0.4);
+  const films = Array.from({ length: filmCount }, (_, i) => ({
+    name: `Synthetic Film ${i + 1}`,
+    year: 1920 + (i % 105),
+    uri: `https://boxd.it/syn${i.toString(36)}`
+  }));
+  const pick = () => films[Math.floor(rand() * films.length)];
+  const rating = () => (Math.ceil(rand() * 10) / 2).toString();
+
+  const watched = films.map((f) => [isoDay(rand), f.name, f.year, f.uri]);
+  const diary = Array.from({ length: Math.round(rows * 0.4) }, () => {
+    const f = pick();
+    const day = isoDay(rand);
+    return [day, f.name, f.year, f.uri, rand() < 0.8 ? rating() : '', rand() < 0.1 ? 'Yes' : '', rand() < 0.2 ? 'cinema, friends' : '', day];
+  });
+  const ratings = Array.from({ length: Math.round(rows * 0.15) }, () => { const f = pick(); return [isoDay(rand), f.name, f.year, f.uri, rating()]; });
+  const reviews = Array.from({ length: Math.round(rows * 0.025) }, () => {
+    const f = pick();
+    const day = isoDay(rand);
+    return [day, f.name, f.year, f.uri, rating(), '', 'Long review text, with commas, "quotes" and\na line break.', '', day];
+  });
+  const watchlist = Array.from({ length: Math.round(rows * 0.025) }, (_, i) => [isoDay(rand), `Unseen Film ${i + 1}`, 2000 + (i % 25), `https://boxd.it/uns${i.toString(36)}`]);
+
+  const zip = new JSZip();
+  zip.file('watched.csv', csv(['Date', 'Name', 'Year', 'Letterboxd URI'], watched));
+  zip.file('diary.csv', csv(['Date', 'Name', 'Year', 'Letterboxd URI', 'Rating', 'Rewatch', 'Tags', 'Watched Date'], diary));
+  zip.file('ratings.csv', csv(['Date', 'Name', 'Year', 'Letterboxd URI', 'Rating'], ratings));
+  zip.file('reviews.csv', csv(['Date', 'Name', 'Year', 'Letterboxd URI', 'Rating', 'Rewatch', 'Review', 'Tags', 'Watched Date'], reviews));
+  zip.file('watchlist.csv', csv(['Date', 'Name', 'Year', 'Letterboxd URI'], watchlist));
+  const total = watched.length + diary.length + ratings.length + reviews.length + watchlist.length;
+  return { buffer: await zip.generateAsync({ type: 'arraybuffer' }), total };
+}
+
+const { buffer, total } = await syntheticExport(ROWS);
+console.log(`Synthetic export: ${total} rows, ${(buffer.byteLength / 1024).toFixed(0)} KiB zipped`);
+
+for (let run = 1; run <= RUNS; run += 1) {
+  const marks = { start: performance.now() };
+  let events = 0;
+  let last = null;
+  const result = await runImport(buffer, null, (p) => {
+    events += 1;
+    if (!marks[p.stage]) marks[p.stage] = performance.now();
+    last = p.stage === 'merge' ? p : last;
+  });
+  const end = performance.now();
+  const read = (marks.merge ?? end) - marks.start;
+  const merge = (marks.stats ?? end) - (marks.merge ?? end);
+  const stats = end - (marks.stats ?? end);
+  console.log(
+    `Run ${run}: read ${read.toFixed(0)} ms · merge ${merge.toFixed(0)} ms · stats ${stats.toFixed(0)} ms · total ${(end - marks.start).toFixed(0)} ms` +
+    ` · ${last?.rowsDone ?? 0} rows → ${result.films.length} films · ${events} progress events`
+  );
+}
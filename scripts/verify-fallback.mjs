@@ -0,0 +1,271 @@
+import http from 'node:http';
+import { readdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+function assertThat(condition, message) {
+  if (!condition) throw new Error(message);
+}
+
+// tsc keeps extensionless relative imports; Node needs the .js.
+async function fixImports(dir) {
+  for (const entry of await readdir(dir, { withFileTypes: true })) {
+    const file = path.join(dir, entry.name);
+    if (entry.isDirectory()) await fixImports(file);
+    else if (file.endsWith('.js')) {
+      const text = await readFile(file, 'utf8');
+      await writeFile(file, text.replace(/from "(\.\.?\/[^"]+)"/g, 'from "$1.js"'));
+    }
+  }
+}
+
+await fixImports('.verify/server');
+const { onRequestPost } = await import('../.verify/server/functions/api/ai.js');
+const { onRequestPost: onChatPost } = await import('../.verify/server/functions/api/chat.js');
+const { onRequestGet: onQuotaGet } = await import('../.verify/server/functions/api/quota.js');
+const { RateLimiter } = await import('../.verify/server/workers/rate-limiter/index.js');
+
+// Mock OpenAI-compatible upstream. The first path segment picks the behaviour.
+const hits = {};
+const prompts = {};
+const auths = {};
+const server = http.createServer((req, res) => {
+  const route = req.url.split('/')[1];
+  hits[route] = (hits[route] || 0) + 1;
+  auths[route] = req.headers.authorization;
+  const ok = () => {
+    res.writeHead(200, { 'content-type': 'text/event-stream' });
+    for (const c of ['Hello ', 'world']) res.write(`data: ${JSON.stringify({ choices: [{ delta: { content: c } }] })}\n\n`);
+    res.end('data: [DONE]\n\n');
+  };
+  const fail = (status) => {
+    res.writeHead(status, { 'content-type': 'application/json', 'retry-after': '0' });
+    res.end(JSON.stringify({ error: { message: `mock ${status}` } }));
+  };
+  if (route === 'ok' || route === 'elsewhere') ok();
+  else if (route === 'chat') {
+    let raw = '';
+    req.on('data', (c) => { raw += c; });
+    req.on('end', () => { prompts.chat = JSON.parse(raw).messages; ok(); });
+  }
+  else if (route === 'grounded') {
+    // First call is the review, second the follow-up asking for replacements.
+    const content = hits.grounded === 1
+      ? JSON.stringify({ title: 'T', paragraphs: ['p'], recommendations: [{ film: 'Heat', year: 1995, reason: 'seen' }, { film: 'Ran', year: 1985, reason: 'saved' }], evidence: [] })
+      : JSON.stringify({ recommendations: [{ film: 'Heat', year: 1995, reason: 'again' }, { film: 'Alien', year: 1979, reason: 'fresh' }] });
+    res.writeHead(200, { 'content-type': 'text/event-stream' });
+    res.end(`data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\ndata: [DONE]\n\n`);
+  }
+  else if (route === 'shaped') {
+    // Keeps the system prompt so the mode's requested shape can be checked.
+    let raw = '';
+    req.on('data', (c) => { raw += c; });
+    req.on('end', () => {
+      prompts.shaped = JSON.parse(raw).messages[0].content;
+      const content = JSON.stringify({ title: 'The Projectionist', highlights: [{ label: 'Sign', value: 'Noir' }], paragraphs: ['p'], sections: [{ heading: 'Gaps', items: ['Ran (1985)'] }], recommendations: [], evidence: [] });
+      res.writeHead(200, { 'content-type': 'text/event-stream' });
+      res.end(`data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\ndata: [DONE]\n\n`);
+    });
+  }
+  else if (route === 'truncated') {
+    res.writeHead(200, { 'content-type': 'text/event-stream' });
+    const partial = '{"title": "Cut off", "paragraphs": ["One.", "Two'; // the model stopped mid-string
+    res.end(`data: ${JSON.stringify({ choices: [{ delta: { content: partial } }] })}\n\ndata: [DONE]\n\n`);
+  }
+  else if (route === 'flaky') hits.flaky === 1 ? fail(503) : ok();
+  else if (route === 'limited') fail(429);
+  else if (route === 'down') fail(500);
+  else if (route === 'unauthorized') fail(401);
+  // 'slow' never answers.
+});
+await new Promise((resolve) => server.listen(0, '127.0.0.1', resolve));
+const base = `http://127.0.0.1:${server.address().port}`;
+
+function memoryKV() {
+  const map = new Map();
+  return {
+    map,
+    get: async (k, type) => (map.has(k) ? (type === 'json' ? JSON.parse(map.get(k)) : map.get(k)) : null),
+    put: async (k, v) => { map.set(k, v); }
+  };
+}
+
+// Durable Object namespace backed by in-memory RateLimiter instances, one per name.
+// Requests to one object are queued, as the runtime's input gates do.
+function memoryDurable() {
+  const objects = new Map();
+  const storage = () => {
+    const map = new Map();
+    let alarm = null;
+    return {
+      get: async (k) => map.get(k),
+      put: async (k, v) => { map.set(k, v); },
+      deleteAll: async () => map.clear(),
+      getAlarm: async () => alarm,
+      setAlarm: async (t) => { alarm = t; }
+    };
+  };
+  return {
+    objects,
+    idFromName: (name) => name,
+    get: (name) => {
+      if (!objects.has(name)) objects.set(name, { instance: new RateLimiter({ storage: storage() }), queue: Promise.resolve() });
+      const o = objects.get(name);
+      return { fetch: (url, init) => (o.queue = o.queue.then(() => o.instance.fetch(new Request(url, init)))) };
+    }
+  };
+}
+
+async function call(name, env, body = {}, { handler = onRequestPost, ip = `10.0.0.${Object.keys(hits).length + 1}`, kv = memoryKV() } = {}) {
+  const res = await handler({
+    request: new Request('http://local/api/ai', {
+      method: 'POST',
+      headers: { 'cf-connecting-ip': ip },
+      body: JSON.stringify(body)
+    }),
+    env: { RLKV: kv, AI_DAILY_LIMIT: '2', AI_RETRY_BASE_MS: '5', AI_TIMEOUT_MS: '300', OPENAI_API_KEY: 'k', OPENAI_FALLBACK_API_KEY: 'k2', AI_CACHE_TTL: '0', ...env }
+  });
+  const used = [...kv.map.entries()].filter(([k]) => /^(ai|chat):/.test(k)).reduce((sum, [, v]) => sum + Number(v), 0);
+  const text = await res.text();
+  console.log(`${name}: ${res.status} ${text.length > 300 ? `${text.slice(0, 300)}...` : text}`);
+  return { res, text, used, data: res.headers.get('content-type').startsWith('application/json') ? JSON.parse(text) : null };
+}
+
+try {
+  const flaky = await call('retry 503', { OPENAI_BASE_URL: `${base}/flaky` });
+  assertThat(flaky.res.status === 200 && flaky.data.text === 'Hello world', '503 should be retried on the same provider');
+  assertThat(flaky.data.attempts.length === 1 && flaky.data.attempts[0].tries === 2, 'retry should be reported as a second try');
+  assertThat(flaky.used === 1, 'a successful request uses one slot');
+
+  const down = await call('fallback after 500', { OPENAI_BASE_URL: `${base}/down`, AI_FALLBACK_CHAIN: 'openai_compat_fallback', OPENAI_FALLBACK_BASE_URL: `${base}/ok` });
+  assertThat(down.data.provider === 'openai_compat_fallback', 'fallback provider should answer');
+  assertThat(down.data.attempts[0].status === 500 && down.data.attempts[0].tries === 2 && !down.data.attempts[0].ok, 'failed provider should be reported with its retries');
+
+  const limited = await call('fallback after 429', { OPENAI_BASE_URL: `${base}/limited`, AI_FALLBACK_CHAIN: 'openai_compat_fallback', OPENAI_FALLBACK_BASE_URL: `${base}/ok` });
+  assertThat(limited.data.attempts[0].status === 429 && limited.data.attempts[0].tries === 2, '429 should be retried before falling back');
+
+  const unauthorized = await call('no retry on 401', { OPENAI_BASE_URL: `${base}/unauthorized`, AI_FALLBACK_CHAIN: 'openai_compat_fallback', OPENAI_FALLBACK_BASE_URL: `${base}/ok` });
+  assertThat(unauthorized.data.attempts[0].tries === 1 && unauthorized.data.attempts[1].ok, '401 should fall back without retrying');
+
+  const slow = await call('timeout', { OPENAI_BASE_URL: `${base}/slow`, AI_MAX_RETRIES: '0', AI_FALLBACK_CHAIN: 'openai_compat_fallback', OPENAI_FALLBACK_BASE_URL: `${base}/ok` });
+  assertThat(/within 300 ms/.test(slow.data.attempts[0].error) && slow.data.text === 'Hello world', 'a silent provider should time out and fall back');
+
+  const missingKey = await call('unconfigured chain entry', { OPENAI_BASE_URL: `${base}/ok`, OPENAI_API_KEY: '', AI_FALLBACK_CHAIN: 'openai_compat_fallback', OPENAI_FALLBACK_BASE_URL: `${base}/ok` });
+  assertThat(missingKey.data.attempts[0].tries === 1 && missingKey.data.provider === 'openai_compat_fallback', 'a provider without credentials should be skipped');
+
+  const allDown = await call('all providers fail', { OPENAI_BASE_URL: `${base}/down`, AI_FALLBACK_CHAIN: 'openai_compat_fallback,gemini', OPENAI_FALLBACK_BASE_URL: `${base}/down` });
+  assertThat(allDown.res.status === 502 && allDown.data.attempts.length === 3, 'every chain entry should be attempted');
+  assertThat(allDown.used === 0 && allDown.data.remaining === 2, 'the rate-limit slot should be refunded');
+
+  const streamed = await call('streamed fallback', { OPENAI_BASE_URL: `${base}/down`, AI_FALLBACK_CHAIN: 'openai_compat_fallback', OPENAI_FALLBACK_BASE_URL: `${base}/ok` }, { stream: true });
+  const done = streamed.text.split('\n\n').find((e) => e.startsWith('event: done'));
+  assertThat(done && JSON.parse(done.split('data: ')[1]).attempts.length === 2, 'the done event should report attempts');
+  assertThat(streamed.used === 1, 'a stream counts as one request');
+
+  const truncated = await call('repair truncated JSON', { OPENAI_BASE_URL: `${base}/truncated` });
+  assertThat(truncated.data.review.title === 'Cut off' && truncated.data.review.paragraphs.length === 2, 'truncated JSON should be repaired server-side');
+  assertThat(truncated.data.repairs.includes('truncated JSON'), 'repairs should be reported');
+
+  const grounded = await call('ground recommendations', { OPENAI_BASE_URL: `${base}/grounded` }, { library: { seen: [['Heat', 1995]], watchlist: [['Ran', 1986]] } });
+  const [first, second] = grounded.data.review.recommendations;
+  assertThat(first.film === 'Alien' && first.replaces === 'Heat', 'a watched recommendation should be replaced by an unseen follow-up pick');
+  assertThat(second.film === 'Ran' && second.onWatchlist, 'watchlist hits should be kept and marked');
+  assertThat(grounded.data.grounding.followUp === 'ok' && grounded.used === 1, 'the follow-up call shares the request slot');
+
+  const shaped = await call('mode shape', { OPENAI_BASE_URL: `${base}/shaped` }, { mode: 'horoscope' });
+  assertThat(/astrologer/.test(prompts.shaped) && /"highlights"/.test(prompts.shaped) && !/"sections"/.test(prompts.shaped), 'the mode should pick the persona and answer shape');
+  assertThat(shaped.data.review.highlights[0].value === 'Noir' && shaped.data.review.sections[0].items.length === 1, 'highlights and sections should be parsed');
+
+  const chat = await call('chat turn', { OPENAI_BASE_URL: `${base}/chat` }, {
+    profile: { totals: { films: 3 } },
+    review: 'You hate the 90s.',
+    messages: [{ role: 'user', content: 'Why?' }, { role: 'assistant', content: 'Ratings.' }, { role: 'user', content: 'Which ones?' }, { role: 'bogus', content: 'x' }]
+  }, { handler: onChatPost });
+  assertThat(chat.res.status === 200 && chat.data.text === 'Hello world' && chat.data.remaining === 19, 'chat should answer on its own daily budget');
+  assertThat(prompts.chat.map((m) => m.role).join() === 'system,user,assistant,user' && prompts.chat[3].content === 'Which ones?', 'chat history should reach the provider in order');
+  assertThat(/You hate the 90s/.test(prompts.chat[0].content) && /"films":3/.test(prompts.chat[0].content), 'the review and dossier should be the chat context');
+
+  const turns = Array.from({ length: 60 }, (_, i) => ({ role: i % 2 ? 'assistant' : 'user', content: `turn ${i}` })).concat({ role: 'user', content: 'Last?' });
+  const longChat = await call('long chat history', { OPENAI_BASE_URL: `${base}/chat` }, { messages: turns }, { handler: onChatPost });
+  const history = prompts.chat.slice(1);
+  assertThat(longChat.res.status === 200 && history.length <= 24 && history[0].role === 'user' && history[history.length - 1].content === 'Last?', 'the server should cap the chat history and open it with a user turn');
+
+  const emptyChat = await call('chat without a question', { OPENAI_BASE_URL: `${base}/chat` }, { messages: [{ role: 'assistant', content: 'Hi' }] }, { handler: onChatPost });
+  assertThat(emptyChat.res.status === 400 && emptyChat.used === 0, 'a chat without a user question is rejected before the quota');
+
+  assertThat(flaky.res.headers.get('x-ratelimit-limit') === '2' && flaky.res.headers.get('x-ratelimit-remaining') === '1', 'responses should carry X-RateLimit headers');
+
+  const ownKey = await call('own key', { OPENAI_BASE_URL: `${base}/down`, AI_FALLBACK_CHAIN: 'openai_compat_fallback', OPENAI_FALLBACK_BASE_URL: `${base}/ok` }, { apiKey: 'mine' });
+  assertThat(ownKey.res.status === 502 && ownKey.data.attempts.length === 1, 'a request on the user\'s own key should not fall back to site credentials');
+  assertThat(ownKey.used === 0 && ownKey.data.remaining === null && !ownKey.res.headers.has('x-ratelimit-limit'), 'own-key requests should not be counted');
+
+  const elsewhere = await call('site key kept from client URL', { OPENAI_BASE_URL: `${base}/ok`, OPENAI_FALLBACK_BASE_URL: `${base}/ok` }, { provider: 'openai_compat_fallback', baseUrl: `${base}/elsewhere` });
+  const elsewherePrimary = await call('site key kept from client URL, primary', { OPENAI_BASE_URL: `${base}/ok` }, { provider: 'openai_compat', baseUrl: `${base}/elsewhere` });
+  assertThat(elsewhere.res.status === 502 && elsewherePrimary.res.status === 502 && !hits.elsewhere, 'a client base URL without a key should never receive the site key');
+  const elsewhereOwn = await call('client URL with own key', { OPENAI_BASE_URL: `${base}/ok` }, { provider: 'openai_compat_fallback', baseUrl: `${base}/elsewhere`, apiKey: 'mine' });
+  assertThat(elsewhereOwn.res.status === 200 && auths.elsewhere === 'Bearer mine', 'a client base URL should be called with the client key');
+
+  const ollamaHits = hits.elsewhere;
+  const ollamaHosted = await call('ollama on the site server', { OLLAMA_BASE_URL: `${base}/ok` }, { provider: 'ollama', baseUrl: `${base}/elsewhere` });
+  const ollamaUnset = await call('ollama without a site server', {}, { provider: 'ollama', baseUrl: `${base}/elsewhere` });
+  assertThat(ollamaHosted.res.status === 200 && ollamaUnset.res.status === 502 && hits.elsewhere === ollamaHits, 'a counted Ollama request should never go to a client URL');
+
+  const bypass = await call('bypass from config', { OPENAI_BASE_URL: `${base}/ok`, AI_BYPASS_IPS: '10.9.9.9, 10.8.8.8' }, {}, { ip: '10.8.8.8' });
+  assertThat(bypass.res.status === 200 && bypass.used === 0, 'AI_BYPASS_IPS should skip the quota');
+  const notListed = await call('bypass list is config only', { OPENAI_BASE_URL: `${base}/ok` }, {}, { ip: '5.34.216.81' });
+  assertThat(notListed.used === 1, 'no IP should be exempt unless configured');
+
+  const spent = await call('per-IP limit', { OPENAI_BASE_URL: `${base}/ok`, AI_DAILY_LIMIT: '0' });
+  assertThat(spent.res.status === 429 && spent.data.exhausted === 'ip' && Number(spent.res.headers.get('retry-after')) > 0, 'an exhausted IP should get 429 with Retry-After');
+
+  const globalKV = memoryKV();
+  const houseEnv = { OPENAI_BASE_URL: `${base}/ok`, AI_GLOBAL_DAILY_LIMIT: '1' };
+  const firstHouse = await call('global budget, first', houseEnv, {}, { ip: '10.1.1.1', kv: globalKV });
+  const secondHouse = await call('global budget, second IP', houseEnv, {}, { ip: '10.1.1.2', kv: globalKV });
+  assertThat(firstHouse.res.status === 200 && firstHouse.res.headers.get('x-ratelimit-remaining') === '0', 'the tighter global budget should drive the headers');
+  assertThat(secondHouse.res.status === 429 && secondHouse.data.exhausted === 'global', 'the global budget should apply across IPs');
+  assertThat(globalKV.map.get(`ai:${new Date().toISOString().slice(0, 10)}:10.1.1.2`) === '0', 'a global refusal should give back the IP slot');
+
+  const durable = memoryDurable();
+  const durableKV = memoryKV();
+  const racing = await Promise.all([1, 2, 3].map((n) => call(`durable object ${n}`, { OPENAI_BASE_URL: `${base}/ok`, AI_DAILY_LIMIT: '1', RATE_LIMITER: durable }, {}, { ip: '10.2.2.2', kv: durableKV })));
+  assertThat(racing.filter((r) => r.res.status === 200).length === 1, 'the Durable Object should count concurrent requests atomically');
+  assertThat(durableKV.map.size === 0 && durable.objects.size === 1, 'with the Durable Object bound, KV should not be written');
+  const broken = { idFromName: (n) => n, get: () => ({ fetch: async () => { throw new Error('unreachable'); } }) };
+  const kvFallback = await call('durable object down', { OPENAI_BASE_URL: `${base}/ok`, RATE_LIMITER: broken });
+  assertThat(kvFallback.res.status === 200 && kvFallback.used === 1, 'KV should count when the Durable Object is unreachable');
+
+  const quotaKV = memoryKV();
+  await call('quota setup', { OPENAI_BASE_URL: `${base}/ok` }, {}, { ip: '10.3.3.3', kv: quotaKV });
+  const quotaRes = await onQuotaGet({ request: new Request('http://local/api/quota', { headers: { 'cf-connecting-ip': '10.3.3.3' } }), env: { RLKV: quotaKV, AI_DAILY_LIMIT: '2' } });
+  const quota = await quotaRes.json();
+  assertThat(quota.ai.remaining === 1 && quota.ai.limit === 2 && quota.chat.remaining === 20 && !quota.ai.exempt, 'GET /api/quota should report what is left per scope');
+
+  const cacheKV = memoryKV();
+  const cacheEnv = { OPENAI_BASE_URL: `${base}/ok`, AI_CACHE_TTL: '3600', AI_DAILY_LIMIT: '5' };
+  const review = { mode: 'praise', language: 'en', profile: { totals: { films: 3 }, rating: { mean: 3.5 } } };
+  const okHits = () => hits.ok || 0;
+  const fresh = await call('cache miss', cacheEnv, review, { ip: '10.4.4.4', kv: cacheKV });
+  const before = okHits();
+  const reordered = { ...review, profile: { rating: { mean: 3.5 }, totals: { films: 3 } } };
+  const cached = await call('cache hit', { ...cacheEnv, AI_DAILY_LIMIT: '1' }, reordered, { ip: '10.4.4.4', kv: cacheKV });
+  assertThat(!fresh.data.cachedAt && cached.data.cachedAt && okHits() === before, 'an identical request should be served from the cache');
+  assertThat(cached.used === 1 && cached.data.review.title === 'Hello world', 'a cache hit should not take quota, even with none left');
+  const streamedHit = await call('streamed cache hit', cacheEnv, { ...review, stream: true }, { ip: '10.4.4.4', kv: cacheKV });
+  assertThat(/event: done\ndata: .*"cachedAt"/.test(streamedHit.text) && streamedHit.text.includes('"delta":"Hello world"'), 'a streamed cache hit should replay the answer');
+  const otherMode = await call('cache key covers the mode', cacheEnv, { ...review, mode: 'roast' }, { ip: '10.4.4.4', kv: cacheKV });
+  assertThat(!otherMode.data.cachedAt && okHits() === before + 1, 'another mode should not hit the cache');
+  const regenerated = await call('regenerate', cacheEnv, { ...review, regenerate: true }, { ip: '10.4.4.4', kv: cacheKV });
+  assertThat(!regenerated.data.cachedAt && okHits() === before + 2 && regenerated.used === 3, 'regenerate should skip the cache and take quota');
+
+  const ownKV = memoryKV();
+  await call('own key, not cached', cacheEnv, { ...review, apiKey: 'mine' }, { kv: ownKV });
+  assertThat(![...ownKV.map.keys()].some((k) => k.startsWith('cache:')), 'own-key answers should not be cached by default');
+  await call('own key, opted in', cacheEnv, { ...review, apiKey: 'mine', cacheOwnKey: true }, { kv: ownKV });
+  const ownHit = await call('own key, hit', cacheEnv, { ...review, apiKey: 'mine', cacheOwnKey: true }, { kv: ownKV });
+  assertThat(ownHit.data.cachedAt && ownHit.data.remaining === null, 'own-key answers should be cached when the user opts in');
+
+  console.log('All fallback assertions passed.');
+} finally {
+  server.closeAllConnections();
+  server.close();
+}
@@ -1,5 +1,13 @@
 import { readFile } from 'node:fs/promises';
-import { readLetterboxdExportZip, mergeTablesToFilms } from '../.verify/letterboxd.js';
+import JSZip from 'jszip';
+import Papa from 'papaparse';
+import { readLetterboxdExportZip, readLooseCsvs, mergeTablesToFilms } from '../.verify/letterboxd.js';
+import { computeStats } from '../.verify/stats.js';
+import { compileDossier } from '../.verify/dossier.js';
+import { ImportError } from '../.verify/schema.js';
+import { BUNDLE_VERSION, diaryToCSV, filmsToCSV, toBundle } from '../.verify/exportData.js';
+import { runImport } from '../.verify/importPipeline.js';
+import { buildSnapshot, diffSnapshots, sameContent } from '../.verify/snapshots.js';
 
 function assertThat(condition, message) {
   if (!condition) throw new Error(message);
@@ -42,6 +50,15 @@ console.log(JSON.stringify({
   diaryRowsTotal: merged.debug.diaryRowsTotal,
   diaryRowsMatchedToWatchedCount: merged.debug.diaryRowsMatchedToWatchedCount,
   reviewsRowsMatchedToWatchedCount: merged.debug.reviewsRowsMatchedToWatchedCount,
+  watchlistRowsTotal: merged.debug.watchlistRowsTotal,
+  watchlistAlsoWatchedCount: merged.debug.watchlistAlsoWatchedCount,
+  likesRowsTotal: merged.debug.likesRowsTotal,
+  likedFilmsCount: merged.debug.likedFilmsCount,
+  listsDetected: merged.debug.listsDetected,
+  listEntriesTotal: merged.debug.listEntriesTotal,
+  listEntriesMatchedToWatchedCount: merged.debug.listEntriesMatchedToWatchedCount,
+  deletedFilesIgnored: merged.debug.deletedFilesIgnored,
+  identity: merged.debug.identity,
   importSpikeDetected: merged.anomaly.importSpikeDetected,
   largestSingleDayImportCount: merged.anomaly.largestSingleDayImportCount,
   largestSingleDayImportDate: merged.anomaly.largestSingleDayImportDate,
@@ -55,8 +72,173 @@ assertThat(tables.comments.length === 0, 'comments.csv exists but must not be tr
 assertThat(merged.debug.diaryRowsMatchedToWatchedCount > 0, 'diary rows should match watched baseline by Name+Year');
 assertThat(merged.debug.reviewsRowsMatchedToWatchedCount > 0, 'reviews rows should match watched baseline by Name+Year');
 assertThat(merged.films.every((f) => f.reviewTextSamples.length === 0 || f.sources.includes('reviews')), 'reviews must come from reviews.csv');
+assertThat(merged.films.every((f) => !f.sources.includes('watched') || f.key.startsWith('uri:')), 'films from watched.csv should be keyed on their Letterboxd URI');
+assertThat(merged.films.every((f) => !f.sources.includes('diary') || f.sources.length > 1 || f.slug === f.key), 'diary entry links must never become film slugs');
 assertThat(merged.films.every((f) => f.rating === null || f.sources.includes('ratings')), 'ratings must come from ratings.csv');
 assertThat(merged.films.every((f) => f.watchedDates.length === 0 || f.sources.includes('diary')), 'time series must use diary watched_at/logged_at only');
+assertThat(merged.films.filter((f) => f.watchlisted).length > 0, 'watchlist.csv rows should merge into the master table');
+assertThat(merged.films.every((f) => !f.watched || f.sources.includes('watched')), 'watchlist rows must not mark films watched');
+assertThat(merged.films.some((f) => f.diaryEntries.some((e) => e.rating !== null)), 'diary Rating column should be parsed per entry');
+assertThat(merged.films.every((f) => f.rating === null || f.ratingHistory[f.ratingHistory.length - 1].rating === f.rating), 'rating history must end with the current rating');
+assertThat(tables.lists.length > 0, 'lists/*.csv should be parsed as lists');
+assertThat(tables.lists.every((l) => l.name && l.entries.length > 0), 'every list should carry a name and entries');
+assertThat(merged.debug.listEntriesTotal === tables.lists.reduce((n, l) => n + l.entries.length, 0), 'every list entry should attach to a film');
+assertThat(merged.films.every((f) => !f.liked || f.sources.includes('likes')), 'liked must come from likes/films.csv');
+assertThat(Object.keys(tables.deleted).length > 0 && Object.keys(tables.deleted).every((f) => f.startsWith('deleted/')), 'deleted/* must be kept apart from live tables');
 assertThat(longestStreak(merged.films.filter((f) => f.watched).flatMap((f) => f.watchedDates)) > 0, 'longest streak should be > 0 with sample diary watched dates');
 
+const stats = computeStats(merged.films, null);
+const tight = compileDossier(merged.films, stats, { anomaly: merged.anomaly, yearReview: null, filter: null, budgetTokens: 4000 });
+const roomy = compileDossier(merged.films, stats, { anomaly: merged.anomaly, yearReview: null, filter: null, budgetTokens: 30000 });
+console.log('Dossier reports:', JSON.stringify({ tight: tight.report, roomy: roomy.report }));
+assertThat(tight.report.estimatedTokens <= 4000, 'dossier must stay within its token budget');
+assertThat(tight.report.filmsIncluded + tight.report.filmsSummarised === tight.report.filmsTotal, 'every film is either sent or summarised');
+assertThat(tight.report.filmsSummarised === 0 || tight.dossier.otherFilms.count === tight.report.filmsSummarised, 'summarised films should be counted in otherFilms');
+assertThat(!('byDay' in tight.dossier.activity), 'per-day activity should not be sent');
+assertThat(roomy.report.filmsIncluded >= tight.report.filmsIncluded, 'a larger budget should never send fewer films');
+const topRated = merged.films.filter((f) => f.rating === 5).map((f) => f.name);
+assertThat(topRated.length === 0 || tight.dossier.films.some((e) => topRated.includes(e.n)), 'five-star films should be among the first picked');
+
+const seen = [];
+const piped = await runImport(ab, null, (p) => seen.push(p));
+const lastRead = seen.filter((p) => p.stage === 'read').pop();
+const lastMerge = seen.filter((p) => p.stage === 'merge').pop();
+assertThat(piped.films.length === merged.films.length && piped.stats.totals.filmsWatched === stats.totals.filmsWatched, 'the import pipeline should match read + merge + stats');
+assertThat(lastRead && lastRead.filesDone === lastRead.filesTotal && lastRead.rows > 0, 'read progress should end with every file read');
+assertThat(lastMerge && lastMerge.rowsDone === lastMerge.rowsTotal && lastMerge.films === merged.films.length, 'merge progress should end with every row merged');
+assertThat(seen[seen.length - 1].stage === 'stats', 'stats should be the last stage reported');
+
+// The same export as an unzipped folder, as renamed loose files and as pasted text.
+const unzipped = await JSZip.loadAsync(ab);
+const csvPaths = Object.keys(unzipped.files).filter((f) => f.endsWith('.csv'));
+const texts = Object.fromEntries(await Promise.all(csvPaths.map(async (f) => [f, await unzipped.file(f).async('string')])));
+const folder = await readLooseCsvs(csvPaths.map((f) => ({ path: `letterboxd-export/${f}`, data: texts[f] })));
+const folderMerged = mergeTablesToFilms(folder);
+assertThat(folder.files.every((f) => csvPaths.includes(f)), 'a dropped folder should read with the same paths as the ZIP');
+assertThat(folderMerged.films.length === merged.films.length, 'a dropped folder should merge to the same films as the ZIP');
+const renamed = await readLooseCsvs([
+  { path: 'my diary (1).csv', data: texts['diary.csv'] },
+  { path: 'export-ratings.csv', data: texts['ratings.csv'] },
+  { path: 'reviews copy.csv', data: texts['reviews.csv'] },
+  { path: 'export-watchlist.csv', data: texts['watchlist.csv'] },
+  { path: 'films.csv', data: texts['watched.csv'] }
+]);
+assertThat(['diary', 'ratings', 'reviews', 'watchlist', 'watched'].every((k) => renamed.detectedCsv.includes(k)), 'renamed CSVs should be detected by their header row');
+assertThat(renamed.diary.length === tables.diary.length && renamed.watched.length === tables.watched.length, 'renamed CSVs should keep every row');
+const pasted = await readLooseCsvs([{ path: 'pasted.csv', data: texts['diary.csv'] }]);
+assertThat(pasted.detectedCsv.join() === 'diary' && mergeTablesToFilms(pasted).debug.diaryRowsTotal === tables.diary.length, 'pasted diary text should import as the diary');
+
+console.log('Import report:', JSON.stringify(merged.debug.importReport.messages));
+assertThat(merged.debug.importReport.messages.every((m) => m.level !== 'error'), 'the sample export should import without report errors');
+assertThat(merged.debug.importReport.tables.every((r) => r.missingRequired.length === 0), 'every sample table should have its required columns');
+
+// A hand-made ratings file with one problem of each kind, at known rows.
+const broken = await readLooseCsvs([
+  { path: 'ratings-old.csv', data: 'Date,Name,Year,Letterboxd URI,Rating\n2024-01-02,Alien,1979,https://boxd.it/2b0k,4\n2024-13-40,Heat,1995,https://boxd.it/2aQk,4.5\n2024-01-03,Ran,1985,https://boxd.it/29Ro,7\n2024-01-02,Alien,1979,https://boxd.it/2b0k,4\n' },
+  { path: 'notes.csv', data: 'Title,Comment\nwhatever,hi\n' }
+]);
+const brokenReport = broken.report.tables.find((r) => r.file === 'ratings-old.csv');
+console.log('Broken report:', JSON.stringify(broken.report.messages));
+assertThat(brokenReport.table === 'ratings' && brokenReport.detectedBy === 'header', 'a renamed ratings file should be detected by its header');
+assertThat(brokenReport.badDates.samples[0]?.row === 3, 'an impossible date should be reported at its row');
+assertThat(brokenReport.badRatings.samples[0]?.row === 4, 'an out-of-range rating should be reported at its row');
+assertThat(brokenReport.duplicates.samples[0]?.row === 5 && brokenReport.duplicates.samples[0]?.firstRow === 2, 'a duplicate row should point at the first copy');
+assertThat(broken.report.messages.some((m) => m.file === 'notes.csv' && m.level === 'warning'), 'an unrecognised file should be reported as skipped');
+const refused = await readLooseCsvs([{ path: 'notes.csv', data: 'Title,Comment\nwhatever,hi\n' }]).catch((e) => e);
+assertThat(refused instanceof ImportError && refused.report.tables.length === 1, 'an import with no Letterboxd tables should fail with a report');
+const headless = await readLooseCsvs([{ path: 'diary.csv', data: 'Date,Film Title,Rating\n2024-01-01,Alien,4\n' }]).catch((e) => e);
+assertThat(headless instanceof ImportError && /Name/.test(headless.message), 'a table without its required columns should say which are missing');
+const notZip = await readLetterboxdExportZip(new TextEncoder().encode('not a zip').buffer).catch((e) => e);
+assertThat(notZip instanceof ImportError, 'a file that is not a ZIP should fail with an ImportError');
+
+// The sample ZIP picked together with an IMDb ratings CSV and a Trakt history export.
+const known = merged.films.find((f) => f.rating !== null && f.year !== null && f.watched);
+const quote = (v) => `"${String(v).replace(/"/g, '""')}"`;
+const imdbCsv = [
+  'Const,Your Rating,Date Rated,Title,URL,Title Type,IMDb Rating,Runtime (mins),Year,Genres,Num Votes,Release Date,Directors',
+  `tt0000001,2,2023-05-01,${quote(known.name)},https://www.imdb.com/title/tt0000001/,Movie,7.0,100,${known.year},Drama,1000,${known.year}-01-01,Someone`,
+  'tt0000002,7,2023-05-02,Imdb Only Picture,https://www.imdb.com/title/tt0000002/,movie,7.1,95,1961,Drama,1000,1961-01-01,Someone',
+  'tt0000003,9,2023-05-03,Some Series,https://www.imdb.com/title/tt0000003/,TV Series,8.0,50,2010,Drama,1000,2010-01-01,',
+  'tt0000004,10,2023-05-04,Some Episode,https://www.imdb.com/title/tt0000004/,tvEpisode,8.0,50,2011,Drama,1000,2011-01-01,'
+].join('\n');
+const traktJson = JSON.stringify([
+  { id: 3, watched_at: '2022-02-03T21:00:00.000Z', action: 'watch', type: 'movie', movie: { title: 'Trakt Only Picture', year: 1974, ids: { trakt: 77 } } },
+  { id: 1, watched_at: '2021-01-02T20:00:00.000Z', action: 'watch', type: 'movie', movie: { title: 'Trakt Only Picture', year: 1974, ids: { trakt: 77 } } },
+  { id: 2, watched_at: '2021-01-05T20:00:00.000Z', action: 'watch', type: 'episode', episode: { season: 1, number: 1, title: 'Pilot' }, show: { title: 'Some Series', year: 2010 } }
+]);
+const combined = await readLooseCsvs([
+  { path: 'letterboxd-export.zip', data: new Blob([ab]) },
+  { path: 'ratings.csv', data: imdbCsv },
+  { path: 'history.json', data: traktJson }
+]);
+const combinedMerged = mergeTablesToFilms(combined);
+const byName = (n) => combinedMerged.films.find((f) => f.name === n);
+console.log('Other services:', JSON.stringify(combined.report.messages.filter((m) => m.level === 'info')));
+assertThat(combined.external.map((e) => e.service).join() === 'imdb,trakt', 'IMDb and Trakt files should be read as other services, even one named ratings.csv');
+assertThat(combined.ratings.length === tables.ratings.length, "IMDb's ratings.csv must not land in Letterboxd's ratings table");
+assertThat(combined.external[0].skipped === 2 && combined.external[1].skipped === 1, 'TV entries should be left out');
+const knownAfter = combinedMerged.films.find((f) => f.key === known.key);
+assertThat(knownAfter.rating === known.rating && knownAfter.sources.includes('imdb'), "a film on both keeps Letterboxd's rating and records IMDb as a source");
+assertThat(byName('Imdb Only Picture')?.rating === 3.5 && byName('Imdb Only Picture').watched && byName('Imdb Only Picture').sources.join() === 'imdb', 'an IMDb 7/10 should become 3.5 stars on a watched film');
+const trakt = byName('Trakt Only Picture');
+assertThat(trakt && trakt.diaryEntries.length === 2 && trakt.rewatchCount === 1 && trakt.sources.join() === 'trakt', 'Trakt plays should become diary entries, the second a rewatch');
+assertThat(!byName('Some Series') && !byName('Some Episode'), 'shows and episodes must not become films');
+assertThat(combinedMerged.films.length === merged.films.length + 2, 'only the two new films should be added');
+// An ordinary IMDb list has a Position column where the ratings export has Your Rating.
+const plainList = await readLooseCsvs([{ path: 'favourites.csv', data: imdbCsv.replace('Your Rating', 'Position') }]).catch((e) => e);
+const listMessage = plainList.report.messages.find((m) => m.file === 'favourites.csv');
+console.log('Unrated list:', JSON.stringify(listMessage));
+assertThat(listMessage && !/TV/.test(listMessage.text) && /without ratings/.test(listMessage.text), 'an unrated IMDb list should be reported as unsupported, not as TV left out');
+
+// Films only saved or listed are not seen: a watchlist film that is also on a list stays out of the dossier.
+const savedOnly = mergeTablesToFilms(await readLooseCsvs([
+  { path: 'watched.csv', data: 'Date,Name,Year\n2020-01-01,Heat,1995\n' },
+  { path: 'lists/favourites.csv', data: 'Letterboxd list export v7\nDate,Name,Tags,URL,Description\n2020-01-01,Favourites,,,\n\nPosition,Name,Year,URL,Description\n1,Ran,1985,,\n2,Heat,1995,,\n' },
+  { path: 'watchlist.csv', data: 'Date,Name,Year\n2020-01-01,Ran,1985\n2020-01-01,Stalker,1979\n' }
+]));
+const savedDossier = compileDossier(savedOnly.films, computeStats(savedOnly.films, 'verify'), { anomaly: null, yearReview: null, filter: null, budgetTokens: 30000 }).dossier;
+assertThat(savedDossier.films.map((e) => e.n).join() === 'Heat', 'films only on the watchlist or a list must not be sent as seen');
+
+// A film whose key turns from title: to uri: between two exports is the same film in the snapshot diff.
+const snapBase = buildSnapshot(merged.films, stats, 'verify');
+const snapBefore = { ...snapBase, films: { 'title:heat::1995': { n: 'Heat', y: 1995, r: 4, w: true } } };
+const snapAfter = { ...snapBase, films: { 'uri:heat': { n: 'Heat', y: 1995, r: 4.5, w: true } } };
+const snapDiff = diffSnapshots(snapBefore, snapAfter);
+assertThat(snapDiff.filmsAdded.length === 0 && snapDiff.ratingsDeleted.length === 0 && snapDiff.ratingsChanged[0]?.after === 4.5, 'a re-keyed film should match by title and year, not show as removed and added');
+assertThat(sameContent(snapBefore, { ...snapAfter, films: { 'uri:heat': { n: 'Heat', y: 1995, r: 4, w: true } } }), 'a re-keyed film with the same rating is the same content');
+
+// A release year off by one merges once per title and year, however many rows repeat it.
+const offByOne = mergeTablesToFilms(await readLooseCsvs([
+  { path: 'watched.csv', data: 'Date,Name,Year\n2020-01-01,Amores Perros,2000\n' },
+  { path: 'diary.csv', data: 'Date,Name,Year,Watched Date\n2020-01-02,Amores Perros,2001,2020-01-02\n2021-01-02,Amores Perros,2001,2021-01-02\n2022-01-02,Amores Perros,2001,2022-01-02\n' }
+]));
+assertThat(offByOne.films.length === 1 && offByOne.films[0].diaryEntries.length === 3, 'diary rows a year off should merge into the watched film');
+assertThat(offByOne.debug.identity.byMethod.fuzzy === 1 && offByOne.debug.identity.fuzzyMerges.length === 1, 'a fuzzy match should be reported once per title and year');
+
+// Exports: flat tables count what they should, and a bundle restores the same films and stats without the ZIP.
+const filmRows = Papa.parse(filmsToCSV(merged.films), { header: true, skipEmptyLines: true }).data;
+const diaryRows = Papa.parse(diaryToCSV(merged.films), { header: true, skipEmptyLines: true }).data;
+assertThat(filmRows.length === merged.films.length, 'the films CSV should have one row per film');
+assertThat(diaryRows.length === merged.films.reduce((n, f) => n + f.diaryEntries.length, 0), 'the diary CSV should have one row per diary entry');
+const bundleText = toBundle(merged, 'verify');
+const restored = await runImport([{ path: 'letterboxd-bundle.json', data: bundleText }], null);
+assertThat(JSON.stringify(restored.films) === JSON.stringify(merged.films), 'a bundle should restore the exact film table');
+assertThat(JSON.stringify(restored.stats.totals) === JSON.stringify(computeStats(merged.films, 'verify').totals), 'stats from a bundle should match stats from the ZIP');
+assertThat(restored.debug.importReport.messages[0]?.level === 'info', 'a restored bundle should say so in the import report');
+const future = bundleText.replace(`"version":${BUNDLE_VERSION}`, `"version":${BUNDLE_VERSION + 1}`);
+const tooNew = await runImport([{ path: 'b.json', data: future }], null).catch((e) => e);
+assertThat(tooNew instanceof ImportError && /newer/.test(tooNew.message), 'a bundle from a newer version should be refused with a reason');
+for (const [what, damage] of [
+  ['version 0', (b) => ({ ...b, version: 0 })],
+  ['a fractional version', (b) => ({ ...b, version: 0.5 })],
+  ['no export date', (b) => ({ ...b, exportedAt: undefined })],
+  ['a film without tags', (b) => ({ ...b, films: b.films.map((f, i) => (i ? f : { ...f, tags: undefined })) })],
+  ['no identity report', (b) => ({ ...b, debug: { ...b.debug, identity: undefined } })]
+]) {
+  const damaged = await runImport([{ path: 'b.json', data: JSON.stringify(damage(JSON.parse(bundleText))) }], null).catch((e) => e);
+  assertThat(damaged instanceof ImportError, `a bundle with ${what} should be refused with an ImportError`);
+}
+const mixed = await runImport([{ path: 'b.json', data: bundleText }, { path: 'diary.csv', data: texts['diary.csv'] }], null).catch((e) => e);
+assertThat(mixed instanceof ImportError, 'a bundle mixed with other files should be refused');
+
 console.log('All sample assertions passed.');
@@ -1,27 +1,85 @@
-import React, { useMemo, useState } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
 import html2canvas from "html2canvas";
 import Toast from "./components/Toast";
-import { readLetterboxdExportZip, mergeTablesToFilms, FilmRecord, MergeAnomaly, MergeDebugSummary } from "./lib/letterboxd";
+import { FilmRecord, MergeAnomaly, MergeDebugSummary } from "./lib/letterboxd";
 import { computeStats, StatPack } from "./lib/stats";
+import { applyFilter, decadeOf, describeFilter, FilmFilter, filterFromHash, filterToHash, isFilterActive } from "./lib/filters";
+import { compareExports } from "./lib/compare";
+import { rewatchTableToCSV } from "./lib/rewatch";
+import { readEventStream } from "./lib/sse";
+import { importInWorker } from "./lib/importInWorker";
+import { ImportInput, ImportProgress } from "./lib/importPipeline";
+import { ImportError, ImportReport, ReportMessage } from "./lib/schema";
+import { diaryToCSV, filmsToCSV, filmsToJSON, statsToJSON, toBundle } from "./lib/exportData";
+import { droppedFiles, ImportSource, importSource, pastedSource, pickedFiles } from "./lib/importSources";
+import { crossCheckRecommendations, parseReview, ParsedReview } from "./lib/aiReview";
+import { compileDossier, dossierBudget, DossierReport, isLogged } from "./lib/dossier";
+import { AI_MODES, AiMode } from "./lib/modes";
+import { ChatMessage, trimHistory } from "./lib/chat";
+import { buildSnapshot, deleteSnapshots, diffSnapshots, growthTimeline, listSnapshots, sameContent, saveSnapshot, Snapshot, snapshotLabel, SnapshotDiff } from "./lib/snapshots";
+import { availableYears, computeYearReview } from "./lib/yearReview";
 import { BarList } from "./components/BarList";
 import { Heatmap } from "./components/Heatmap";
+import { CompareBars } from "./components/CompareBars";
 import ShareCard from "./components/ShareCard";
+import FilterBar from "./components/FilterBar";
+import DuoShareCard from "./components/DuoShareCard";
+import AiReviewCard from "./components/AiReviewCard";
 import { formatInt, formatPct, round1, round3 } from "./lib/utils";
 
-type Provider = "default" | "openai_compat" | "gemini";
+// Mirrors ProviderInfo in functions/_lib/providers.ts (served by /api/providers).
+type ProviderInfo = { id: string; label: string; defaultModel: string; defaultBaseUrl: string | null; hosted: boolean; acceptsKey: boolean };
 
 type Lang = "en" | "zh" | "uk";
 
+
+type FriendExport = { fileName: string; films: FilmRecord[]; stats: StatPack };
+
+type AiAttempt = { provider: string; model: string; tries: number; ok: boolean; status?: number; error?: string };
+type AiMeta = { provider: string; model: string; attempts: AiAttempt[]; cachedAt?: string };
+type QuotaStatus = { exempt: boolean; limit: number | null; remaining: number | null; reset: number; exhausted?: "ip" | "global" };
+type QuotaInfo = { ai: QuotaStatus; chat: QuotaStatus };
+
+// Rough length of a full answer (title, 3 paragraphs, 8 recommendations); drives the streaming progress bar.
+const EXPECTED_AI_CHARS = 2400;
+// Each partial parse walks the whole buffer, so while streaming it runs at most this often.
+const PARTIAL_PARSE_MS = 500;
+
+// Used until /api/providers answers (or when it cannot, e.g. plain `vite` without functions).
+const FALLBACK_PROVIDERS: ProviderInfo[] = [
+  { id: "openai_compat", label: "DeepSeek / GPT / Doubao", defaultModel: "deepseek-chat", defaultBaseUrl: "https://api.deepseek.com", hosted: true, acceptsKey: true },
+  { id: "gemini", label: "Gemini", defaultModel: "gemini-1.5-flash", defaultBaseUrl: null, hosted: false, acceptsKey: true }
+];
+
+const REPORT_MESSAGES_SHOWN = 8;
+
+function ReportMessages({ messages }: { messages: ReportMessage[] }) {
+  if (!messages.length) return null;
+  return <>
+    {messages.slice(0, REPORT_MESSAGES_SHOWN).map((m, i) => (
+      <div className="small" key={i}>{m.level === "error" ? "✕" : "•"} {m.file}: {m.text}</div>
+    ))}
+    {messages.length > REPORT_MESSAGES_SHOWN && <div className="small">… +{messages.length - REPORT_MESSAGES_SHOWN}</div>}
+  </>;
+}
+
+// Reading is the slow part of an import: it gets the first 60% of the bar, merging the next 35%.
+function importPercent(p: ImportProgress): number {
+  if (p.stage === "read") return Math.round(60 * (p.filesDone / Math.max(1, p.filesTotal)));
+  if (p.stage === "merge") return 60 + Math.round(35 * (p.rowsDone / Math.max(1, p.rowsTotal)));
+  return 97;
+}
+
 const I18N: Record<Lang, Record<string, string>> = {
   en: {
     title: "Letterboxd AI Review",
     subtitle: "Local ZIP analysis + DeepSeek default AI",
     reset: "Reset",
     importTitle: "1) Import",
-    uploadHint: "Upload your Letterboxd export ZIP",
+    uploadHint: "Upload or drop your Letterboxd export: the ZIP, the unzipped folder, or just some of its CSVs. IMDb and TMDB ratings CSVs and Trakt JSON can go alongside. A saved bundle works on its own",
     loadSample: "Use sample_data.zip",
     debug: "Debug summary",
-    localOnly: "All parsing and stats are local in your browser. Refresh clears everything.",
+    localOnly: "All parsing and stats are local in your browser. Refresh clears everything except the local snapshot history.",
     label: "Label on share card",
     language: "Language",
     merged: "unique films merged",
@@ -43,13 +101,31 @@ const I18N: Record<Lang, Record<string, string>> = {
     mode: "Mode",
     roast: "Roast",
     praise: "Praise",
+    roastHint: "A blunt friend takes your diary apart, with eight recommendations.",
+    praiseHint: "The same friend, but generous this time.",
+    therapist: "Therapist",
+    therapistHint: "Psychoanalyses your taste: symptoms, a diagnosis and films as treatment.",
+    criticEssay: "Critic's essay",
+    criticEssayHint: "A long-form essay reading your viewing life as an auteur's filmography.",
+    horoscope: "Horoscope",
+    horoscopeHint: "Your film sign, rising sign and what the stars say you watch next.",
+    blindSpots: "Blind spots",
+    blindSpotsHint: "Canon gaps by decade and country, with the films that close them.",
+    datingProfile: "Dating profile",
+    datingProfileHint: "Your taste as a dating-app profile: bio, green flags, red flags, prompts.",
+    tasteArchetype: "Taste archetype",
+    tasteArchetypeHint: "One named archetype with trait scores and the films that define it.",
+    duoRoastHint: "Roasts you and your friend side by side and picks a joint movie night.",
     level: "Intensity",
     mild: "Mild",
     normal: "Normal",
     savage: "Savage",
     provider: "Provider",
     key: "API key (optional)",
-    keyHint: "Leave empty to use site default DeepSeek key",
+    keyHint: "Leave empty to use the site key",
+    keyRequired: "Your API key for this provider",
+    defaultProvider: "Default",
+    ownKey: "own key",
     baseUrl: "Base URL (OpenAI compatible)",
     model: "Model",
     generate: "Generate",
@@ -60,7 +136,7 @@ const I18N: Record<Lang, Record<string, string>> = {
     tutorial: "Quick tutorial",
     t1: "Export Letterboxd data: Settings → Data → Export ZIP.",
     t2: "Upload ZIP here. No login. No database. Refresh = clear.",
-    t3: "Default AI uses site DeepSeek key. To use Gemini/GPT/Doubao, fill provider + key (+ baseUrl/model).",
+    t3: "Default AI uses the site key. To use Gemini/GPT/Doubao/Anthropic, fill provider + key (+ baseUrl/model); Ollama runs on the site's server (its own URL only in local dev).",
     t4: "Choose EN / 中文 / Українська to switch both UI and AI output language.",
     extraStats: "Cinephile boards",
     recBoard: "AI recommendation hooks",
@@ -68,17 +144,152 @@ const I18N: Record<Lang, Record<string, string>> = {
     loading1: "Building full film dossier...",
     loading2: "Extracting patterns from every watched title...",
     loading3: "Writing a direct, non-generic critique...",
-    loading4: "Final polishing..."
+    loading4: "Final polishing...",
+    cancel: "Cancel",
+    importReading: "Reading",
+    exportTitle: "Export",
+    exportFilmsCsv: "Films CSV",
+    exportFilmsJson: "Films JSON",
+    exportDiaryCsv: "Diary CSV",
+    exportStatsJson: "Stats JSON",
+    exportBundle: "Bundle",
+    exportBundleHint: "The bundle holds the merged film table; upload it later instead of the ZIP.",
+    pasteCsv: "Paste CSV",
+    importFailed: "Import failed.",
+    importReport: "Import report",
+    importErrors: "errors",
+    importWarnings: "warnings",
+    pastePlaceholder: "Paste one CSV with its header row, e.g. the contents of diary.csv",
+    pasteImport: "Import pasted CSV",
+    importFiles: "files",
+    importRows: "rows",
+    importMerging: "Merging",
+    importFilms: "films",
+    importStats: "Computing stats",
+    chatTitle: "Ask a follow-up",
+    chatHint: "Question the review or ask for more picks. The conversation stays in this tab; each message sends your dossier again.",
+    chatPlaceholder: "Why do you think I hate the 90s?",
+    chatSend: "Send",
+    chatClear: "Clear chat",
+    chatFriend: "Film friend",
+    aiCached: "Saved answer from",
+    regenerate: "Regenerate",
+    cacheOwnKey: "Cache answers made with my key (the same export and settings then get the saved answer without calling the model)",
+    quotaLeft: "Free AI requests left today",
+    quotaChat: "chat",
+    quotaReset: "resets at",
+    quotaOwnKey: "requests with your own API key are not counted",
+    quotaGlobal: "The site's AI budget for today is used up; add your own API key to keep going",
+    aiAnsweredBy: "Answered by",
+    aiTried: "· failed first:",
+    aiFailed: "Failed:",
+    aiEvidence: "Evidence from your data",
+    alreadyWatched: "Already watched",
+    alreadySaved: "You already saved this",
+    aiReplaces: "Instead of a film you have seen",
+    aiRepaired: "Output repaired",
+    dossierDetail: "Films sent in detail",
+    dossierSummarised: "summarised",
+    dossierDropped: "sections left out",
+    tokens: "tokens",
+    aiCancelled: "(cancelled)",
+    watchlistTitle: "Watchlist",
+    backlog: "Backlog",
+    backlogAge: "Median age (days)",
+    addedRecently: "Added in last 90 days",
+    fromWatchlist: "Watched from watchlist",
+    decadeMix: "Decade mix: backlog vs watched",
+    backlogLegend: "Backlog",
+    watchedLegend: "Watched",
+    scope: "Scope",
+    allTime: "All time",
+    yearReview: "Year in review",
+    filmsLogged: "Films logged",
+    diaryEntries: "Diary entries",
+    hoursEstimated: "Hours (est.)",
+    vsPrevious: "vs previous year",
+    monthCurve: "Month by month",
+    bestFirstWatches: "Best-rated first watches",
+    mostRewatched: "Most rewatched",
+    newVsOld: "New vs older releases",
+    newReleases: "New releases",
+    olderReleases: "Older",
+    filters: "Filters",
+    from: "From",
+    to: "To",
+    decade: "Decade",
+    tag: "Tag",
+    ratingMin: "Min rating",
+    ratingMax: "Max rating",
+    any: "Any",
+    rewatchOnly: "Rewatches only",
+    reviewedOnly: "Reviewed only",
+    clearFilters: "Clear",
+    showing: "Showing",
+    filter: "Filter",
+    tagsTitle: "Tags",
+    topTags: "Top tags",
+    tagRatings: "Mean rating by tag",
+    tagPairs: "Tags used together",
+    tagPredictors: "Tags that predict a high rating",
+    tagTimeline: "Tag usage by month",
+    rewatchTitle: "Rewatches",
+    rewatchedFilms: "Rewatched films",
+    rewatchShare: "Rewatch share of watches",
+    avgGap: "Avg gap (days)",
+    comfortFilms: "Comfort films (3+ years)",
+    ratingShift: "Rating change across rewatches",
+    rewatchByYear: "Rewatch share by year (%)",
+    exportCsv: "Export CSV",
+    up: "up",
+    down: "down",
+    same: "same",
+    driftTitle: "You changed your mind",
+    disagreeing: "Current rating ≠ latest diary rating",
+    raised: "Raised",
+    lowered: "Lowered",
+    meanDrift: "Mean drift",
+    compareTitle: "Compare with a friend",
+    compareHint: "Load a second Letterboxd export: the ZIP or its CSVs",
+    friendLabel: "Friend's label",
+    removeFriend: "Remove",
+    compatibility: "Compatibility",
+    shared: "Shared films",
+    onlyYou: "Only you",
+    onlyFriend: "Only friend",
+    ratingCorrelation: "Rating correlation",
+    meanAbsDiff: "Mean abs. difference",
+    disagreementsTitle: "Biggest disagreements",
+    agreementsTitle: "Both love",
+    decadePrefs: "Decade preferences",
+    tagPrefs: "Tag preferences",
+    downloadDuoCard: "Download duo card PNG",
+    duoRoast: "Duo roast",
+    you: "You",
+    friend: "Friend",
+    historyTitle: "Snapshot history",
+    historyHint: "A compact snapshot of each new export is kept in this browser (IndexedDB) per label.",
+    sinceLast: "Since previous snapshot",
+    filmsAdded: "Films added",
+    ratingsChanged: "Ratings changed",
+    ratingsDeleted: "Ratings deleted",
+    meanShift: "Mean shift",
+    decadeShift: "Decade mix: before vs now",
+    before: "Before",
+    now: "Now",
+    growth: "Growth timeline",
+    clearHistory: "Clear history",
+    firstSnapshot: "First snapshot saved. Load a newer export later to see what changed."
   },
   zh: {
     title: "Letterboxd AI 锐评",
     subtitle: "本地 ZIP 分析 + 默认 DeepSeek",
     reset: "重置",
     importTitle: "1）导入",
-    uploadHint: "上传 Letterboxd 导出 ZIP",
+    uploadHint: "上传或拖入 Letterboxd 导出：ZIP、解压后的文件夹，或其中的部分 CSV。也可以同时放入 IMDb、TMDB 评分 CSV 和 Trakt JSON。保存的数据包可单独上传",
     loadSample: "使用 sample_data.zip",
     debug: "调试摘要",
-    localOnly: "所有解析和统计都在浏览器本地完成。刷新即清空。",
+    localOnly: "所有解析和统计都在浏览器本地完成。刷新即清空（本地快照历史除外）。",
     label: "分享卡片标签",
     language: "语言",
     merged: "部唯一影片已合并",
@@ -100,13 +311,31 @@ const I18N: Record<Lang, Record<string, string>> = {
     mode: "模式",
     roast: "锐评",
     praise: "夸奖",
+    roastHint: "一位直言不讳的朋友拆解你的日记，并给出八部推荐。",
+    praiseHint: "同一位朋友，这次说好话。",
+    therapist: "心理咨询",
+    therapistHint: "给你的口味做心理分析：症状、诊断，以及作为治疗的影片。",
+    criticEssay: "影评随笔",
+    criticEssayHint: "把你的观影史当作一位作者导演的作品年表来写的长文。",
+    horoscope: "星座运势",
+    horoscopeHint: "你的电影星座、上升星座，以及星象建议你接下来看什么。",
+    blindSpots: "观影盲区",
+    blindSpotsHint: "按年代和国家列出经典盲区，以及补上它们的影片。",
+    datingProfile: "交友资料",
+    datingProfileHint: "把你的口味写成交友软件资料：简介、加分项、减分项、问答。",
+    tasteArchetype: "口味原型",
+    tasteArchetypeHint: "一个有名字的口味原型，附特质评分和代表影片。",
+    duoRoastHint: "把你和朋友放在一起锐评，并挑一场共同的电影之夜。",
     level: "强度",
     mild: "温和",
     normal: "正常",
     savage: "狠一点",
     provider: "模型来源",
     key: "API Key（可选）",
-    keyHint: "留空即使用站点默认 DeepSeek key",
+    keyHint: "留空即使用站点 key",
+    keyRequired: "该模型来源需填写你自己的 API key",
+    defaultProvider: "默认",
+    ownKey: "需自备 key",
     baseUrl: "Base URL（OpenAI 兼容）",
     model: "模型名",
     generate: "生成",
@@ -117,7 +346,7 @@ const I18N: Record<Lang, Record<string, string>> = {
     tutorial: "快速教程",
     t1: "导出数据：Letterboxd 设置 → Data → Export ZIP。",
     t2: "上传 ZIP 即可，无需登录，不落库，刷新即清空。",
-    t3: "默认走站点 DeepSeek；若用 Gemini/GPT/豆包，请填写 provider + key（可加 baseUrl/model）。",
+    t3: "默认使用站点 key；若用 Gemini/GPT/豆包/Anthropic，请填写 provider + key（可加 baseUrl/model）；Ollama 使用站点的服务器（仅本地开发时可填自己的地址）。",
     t4: "选择 EN / 中文 / Українська，会同时切换界面和 AI 输出语言。",
     extraStats: "影迷爽点板块",
     recBoard: "AI 推荐钩子",
@@ -125,17 +354,152 @@ const I18N: Record<Lang, Record<string, string>> = {
     loading1: "正在构建全量观影档案...",
     loading2: "正在从每一部影片提取偏好模式...",
     loading3: "正在生成直接、不水的个人评价...",
-    loading4: "正在润色最终结果..."
+    loading4: "正在润色最终结果...",
+    cancel: "取消",
+    importReading: "正在读取",
+    exportTitle: "导出",
+    exportFilmsCsv: "影片 CSV",
+    exportFilmsJson: "影片 JSON",
+    exportDiaryCsv: "日记 CSV",
+    exportStatsJson: "统计 JSON",
+    exportBundle: "数据包",
+    exportBundleHint: "数据包保存合并后的影片表；以后可以直接上传它，无需原始 ZIP。",
+    pasteCsv: "粘贴 CSV",
+    importFailed: "导入失败。",
+    importReport: "导入报告",
+    importErrors: "个错误",
+    importWarnings: "个警告",
+    pastePlaceholder: "粘贴一个带表头的 CSV，例如 diary.csv 的内容",
+    pasteImport: "导入粘贴的 CSV",
+    importFiles: "文件",
+    importRows: "行",
+    importMerging: "正在合并",
+    importFilms: "影片",
+    importStats: "正在计算统计",
+    chatTitle: "继续追问",
+    chatHint: "可以质疑这份点评，或者要更多推荐。对话只保存在当前页面；每条消息都会重新发送你的档案。",
+    chatPlaceholder: "你为什么觉得我讨厌 90 年代？",
+    chatSend: "发送",
+    chatClear: "清空对话",
+    chatFriend: "影友",
+    aiCached: "已保存的回答，时间",
+    regenerate: "重新生成",
+    cacheOwnKey: "缓存用我的密钥生成的回答（相同的导出和设置会直接取回保存的回答，不再调用模型）",
+    quotaLeft: "今日剩余免费 AI 次数",
+    quotaChat: "对话",
+    quotaReset: "重置时间",
+    quotaOwnKey: "使用你自己的 API 密钥不计入次数",
+    quotaGlobal: "本站今日的 AI 额度已用完；填入你自己的 API 密钥即可继续",
+    aiAnsweredBy: "回答来自",
+    aiTried: "· 先前失败：",
+    aiFailed: "失败：",
+    aiEvidence: "数据依据",
+    alreadyWatched: "已看过",
+    alreadySaved: "你已经收藏过这部",
+    aiReplaces: "替换了你看过的",
+    aiRepaired: "输出已修复",
+    dossierDetail: "详细发送的影片",
+    dossierSummarised: "以统计摘要代替",
+    dossierDropped: "省略的部分",
+    tokens: "tokens",
+    aiCancelled: "（已取消）",
+    watchlistTitle: "待看清单",
+    backlog: "待看积压",
+    backlogAge: "中位收藏天数",
+    addedRecently: "近 90 天新增",
+    fromWatchlist: "从待看清单看完",
+    decadeMix: "年代分布：待看 vs 已看",
+    backlogLegend: "待看",
+    watchedLegend: "已看",
+    scope: "范围",
+    allTime: "全部时间",
+    yearReview: "年度回顾",
+    filmsLogged: "记录影片",
+    diaryEntries: "日记条目",
+    hoursEstimated: "时长（估算，小时）",
+    vsPrevious: "对比上一年",
+    monthCurve: "逐月曲线",
+    bestFirstWatches: "最高分初看",
+    mostRewatched: "重看最多",
+    newVsOld: "新片 vs 老片",
+    newReleases: "新片",
+    olderReleases: "老片",
+    filters: "筛选",
+    from: "开始",
+    to: "结束",
+    decade: "年代",
+    tag: "标签",
+    ratingMin: "最低分",
+    ratingMax: "最高分",
+    any: "不限",
+    rewatchOnly: "仅重看",
+    reviewedOnly: "仅有短评",
+    clearFilters: "清除",
+    showing: "显示",
+    filter: "筛选",
+    tagsTitle: "标签",
+    topTags: "常用标签",
+    tagRatings: "各标签平均分",
+    tagPairs: "常一起出现的标签",
+    tagPredictors: "预示高分的标签",
+    tagTimeline: "标签月度使用",
+    rewatchTitle: "重看",
+    rewatchedFilms: "重看影片",
+    rewatchShare: "重看占比",
+    avgGap: "平均间隔（天）",
+    comfortFilms: "安慰片（3 年以上）",
+    ratingShift: "重看评分变化",
+    rewatchByYear: "每年重看占比（%）",
+    exportCsv: "导出 CSV",
+    up: "上调",
+    down: "下调",
+    same: "不变",
+    driftTitle: "你改主意了",
+    disagreeing: "当前评分 ≠ 最近日记评分",
+    raised: "调高",
+    lowered: "调低",
+    meanDrift: "平均漂移",
+    compareTitle: "和朋友对比",
+    compareHint: "加载第二个 Letterboxd 导出：ZIP 或其中的 CSV",
+    friendLabel: "朋友标签",
+    removeFriend: "移除",
+    compatibility: "契合度",
+    shared: "共同看过",
+    onlyYou: "只有你看过",
+    onlyFriend: "只有朋友看过",
+    ratingCorrelation: "评分相关性",
+    meanAbsDiff: "平均分差",
+    disagreementsTitle: "最大分歧",
+    agreementsTitle: "共同真爱",
+    decadePrefs: "年代偏好",
+    tagPrefs: "标签偏好",
+    downloadDuoCard: "下载双人图卡 PNG",
+    duoRoast: "双人锐评",
+    you: "你",
+    friend: "朋友",
+    historyTitle: "快照历史",
+    historyHint: "每次导入新的导出都会按标签在本浏览器（IndexedDB）保存一份精简快照。",
+    sinceLast: "相比上一次快照",
+    filmsAdded: "新增影片",
+    ratingsChanged: "评分变化",
+    ratingsDeleted: "删除的评分",
+    meanShift: "均分变化",
+    decadeShift: "年代分布：之前 vs 现在",
+    before: "之前",
+    now: "现在",
+    growth: "增长时间线",
+    clearHistory: "清空历史",
+    firstSnapshot: "已保存第一份快照。以后导入更新的导出即可查看变化。"
   },
   uk: {
     title: "Letterboxd AI Огляд",
     subtitle: "Локальний аналіз ZIP + DeepSeek за замовчуванням",
     reset: "Скинути",
     importTitle: "1) Імпорт",
-    uploadHint: "Завантажте ZIP-експорт Letterboxd",
+    uploadHint: "Завантажте або перетягніть експорт Letterboxd: ZIP, розпаковану теку або лише кілька CSV з неї. Поруч можна додати CSV з оцінками IMDb і TMDB та JSON з Trakt. Збережений пакет завантажується окремо",
     loadSample: "Використати sample_data.zip",
     debug: "Налагоджувальний зведений звіт",
-    localOnly: "Усе обробляється локально в браузері. Оновлення сторінки очищує дані.",
+    localOnly: "Усе обробляється локально в браузері. Оновлення сторінки очищує дані, крім локальної історії знімків.",
     label: "Підпис на картці",
     language: "Мова",
     merged: "унікальних фільмів об'єднано",
@@ -157,13 +521,31 @@ const I18N: Record<Lang, Record<string, string>> = {
     mode: "Режим",
     roast: "Рознос",
     praise: "Похвала",
+    roastHint: "Прямолінійний друг розбирає ваш щоденник і радить вісім фільмів.",
+    praiseHint: "Той самий друг, але цього разу щедрий.",
+    therapist: "Психотерапевт",
+    therapistHint: "Психоаналіз вашого смаку: симптоми, діагноз і фільми як лікування.",
+    criticEssay: "Есей критика",
+    criticEssayHint: "Довгий есей, що читає ваші перегляди як фільмографію автора.",
+    horoscope: "Гороскоп",
+    horoscopeHint: "Ваш кінознак, асцендент і що зірки радять дивитися далі.",
+    blindSpots: "Сліпі плями",
+    blindSpotsHint: "Прогалини в каноні за десятиліттями й країнами та фільми, що їх закривають.",
+    datingProfile: "Профіль для знайомств",
+    datingProfileHint: "Ваш смак як профіль у застосунку знайомств: біо, зелені й червоні прапорці, відповіді.",
+    tasteArchetype: "Архетип смаку",
+    tasteArchetypeHint: "Один названий архетип з оцінками рис і фільмами, що його визначають.",
+    duoRoastHint: "Рознос вас і друга поруч і спільний кіновечір.",
     level: "Інтенсивність",
     mild: "М'яко",
     normal: "Нормально",
     savage: "Жорстко",
     provider: "Провайдер",
     key: "API ключ (необов'язково)",
-    keyHint: "Порожньо = ключ DeepSeek сайту",
+    keyHint: "Порожньо = ключ сайту",
+    keyRequired: "Ваш API ключ для цього провайдера",
+    defaultProvider: "Типово",
+    ownKey: "свій ключ",
     baseUrl: "Base URL (OpenAI-сумісний)",
     model: "Модель",
     generate: "Згенерувати",
@@ -174,7 +556,7 @@ const I18N: Record<Lang, Record<string, string>> = {
     tutorial: "Швидкий гайд",
     t1: "Експорт у Letterboxd: Settings → Data → Export ZIP.",
     t2: "Завантажте ZIP. Без логіну, без БД, refresh очищує все.",
-    t3: "Типово DeepSeek; для Gemini/GPT/Doubao заповніть provider + key (+ baseUrl/model).",
+    t3: "Типово ключ сайту; для Gemini/GPT/Doubao/Anthropic заповніть provider + key (+ baseUrl/model); Ollama працює на сервері сайту (власний URL лише в локальній розробці).",
     t4: "EN / 中文 / Українська перемикає і UI, і мову AI.",
     extraStats: "Панелі для кіноманів",
     recBoard: "AI рекомендації",
@@ -182,87 +564,367 @@ const I18N: Record<Lang, Record<string, string>> = {
     loading1: "Формуємо повне досьє переглядів...",
     loading2: "Витягуємо патерни з кожного переглянутого фільму...",
     loading3: "Пишемо пряму, не шаблонну рецензію...",
-    loading4: "Фінальне шліфування..."
+    loading4: "Фінальне шліфування...",
+    cancel: "Скасувати",
+    importReading: "Читання",
+    exportTitle: "Експорт",
+    exportFilmsCsv: "Фільми CSV",
+    exportFilmsJson: "Фільми JSON",
+    exportDiaryCsv: "Щоденник CSV",
+    exportStatsJson: "Статистика JSON",
+    exportBundle: "Пакет",
+    exportBundleHint: "Пакет містить об’єднану таблицю фільмів; пізніше його можна завантажити замість ZIP.",
+    pasteCsv: "Вставити CSV",
+    importFailed: "Імпорт не вдався.",
+    importReport: "Звіт імпорту",
+    importErrors: "помилок",
+    importWarnings: "попереджень",
+    pastePlaceholder: "Вставте один CSV з рядком заголовків, наприклад вміст diary.csv",
+    pasteImport: "Імпортувати вставлений CSV",
+    importFiles: "файли",
+    importRows: "рядків",
+    importMerging: "Об’єднання",
+    importFilms: "фільмів",
+    importStats: "Обчислення статистики",
+    chatTitle: "Додаткові питання",
+    chatHint: "Оскаржте відгук або попросіть ще фільмів. Розмова зберігається лише в цій вкладці; кожне повідомлення знову надсилає ваше досьє.",
+    chatPlaceholder: "Чому ви вважаєте, що я не люблю 90-ті?",
+    chatSend: "Надіслати",
+    chatClear: "Очистити чат",
+    chatFriend: "Кінодруг",
+    aiCached: "Збережена відповідь від",
+    regenerate: "Згенерувати знову",
+    cacheOwnKey: "Кешувати відповіді з моїм ключем (той самий експорт і налаштування отримають збережену відповідь без виклику моделі)",
+    quotaLeft: "Безкоштовних AI запитів на сьогодні",
+    quotaChat: "чат",
+    quotaReset: "скидання о",
+    quotaOwnKey: "запити з власним API ключем не рахуються",
+    quotaGlobal: "Денний AI бюджет сайту вичерпано; додайте власний API ключ, щоб продовжити",
+    aiAnsweredBy: "Відповідь від",
+    aiTried: "· спершу не вдалося:",
+    aiFailed: "Не вдалося:",
+    aiEvidence: "Докази з ваших даних",
+    alreadyWatched: "Вже переглянуто",
+    alreadySaved: "Ви вже зберегли цей фільм",
+    aiReplaces: "Замість переглянутого",
+    aiRepaired: "Вивід виправлено",
+    dossierDetail: "Фільмів надіслано детально",
+    dossierSummarised: "узагальнено",
+    dossierDropped: "пропущені розділи",
+    tokens: "токенів",
+    aiCancelled: "(скасовано)",
+    watchlistTitle: "Список до перегляду",
+    backlog: "Беклог",
+    backlogAge: "Медіанний вік (днів)",
+    addedRecently: "Додано за 90 днів",
+    fromWatchlist: "Переглянуто зі списку",
+    decadeMix: "Десятиліття: беклог vs переглянуте",
+    backlogLegend: "Беклог",
+    watchedLegend: "Переглянуто",
+    scope: "Період",
+    allTime: "За весь час",
+    yearReview: "Підсумки року",
+    filmsLogged: "Фільмів у щоденнику",
+    diaryEntries: "Записів у щоденнику",
+    hoursEstimated: "Годин (оцінка)",
+    vsPrevious: "порівняно з минулим роком",
+    monthCurve: "По місяцях",
+    bestFirstWatches: "Найкращі перші перегляди",
+    mostRewatched: "Найчастіше переглянуті",
+    newVsOld: "Нові vs старші релізи",
+    newReleases: "Нові релізи",
+    olderReleases: "Старші",
+    filters: "Фільтри",
+    from: "Від",
+    to: "До",
+    decade: "Десятиліття",
+    tag: "Тег",
+    ratingMin: "Мін. оцінка",
+    ratingMax: "Макс. оцінка",
+    any: "Будь-яка",
+    rewatchOnly: "Лише повторні",
+    reviewedOnly: "Лише з рецензією",
+    clearFilters: "Очистити",
+    showing: "Показано",
+    filter: "Фільтр",
+    tagsTitle: "Теги",
+    topTags: "Найчастіші теги",
+    tagRatings: "Середня оцінка за тегом",
+    tagPairs: "Теги, що йдуть разом",
+    tagPredictors: "Теги, що передбачають високу оцінку",
+    tagTimeline: "Використання тегів по місяцях",
+    rewatchTitle: "Повторні перегляди",
+    rewatchedFilms: "Переглянуто повторно",
+    rewatchShare: "Частка повторних",
+    avgGap: "Сер. інтервал (днів)",
+    comfortFilms: "Фільми-втіха (3+ роки)",
+    ratingShift: "Зміна оцінки між переглядами",
+    rewatchByYear: "Частка повторних за роками (%)",
+    exportCsv: "Експорт CSV",
+    up: "вгору",
+    down: "вниз",
+    same: "без змін",
+    driftTitle: "Ви передумали",
+    disagreeing: "Поточна оцінка ≠ останньої в щоденнику",
+    raised: "Підвищено",
+    lowered: "Знижено",
+    meanDrift: "Середній дрейф",
+    compareTitle: "Порівняння з другом",
+    compareHint: "Завантажте другий експорт Letterboxd: ZIP або його CSV",
+    friendLabel: "Підпис друга",
+    removeFriend: "Прибрати",
+    compatibility: "Сумісність",
+    shared: "Спільні фільми",
+    onlyYou: "Лише ви",
+    onlyFriend: "Лише друг",
+    ratingCorrelation: "Кореляція оцінок",
+    meanAbsDiff: "Сер. абс. різниця",
+    disagreementsTitle: "Найбільші розбіжності",
+    agreementsTitle: "Обидва в захваті",
+    decadePrefs: "Уподобання за десятиліттями",
+    tagPrefs: "Уподобання за тегами",
+    downloadDuoCard: "Завантажити PNG-картку дуету",
+    duoRoast: "Рознос дуету",
+    you: "Ви",
+    friend: "Друг",
+    historyTitle: "Історія знімків",
+    historyHint: "Компактний знімок кожного нового експорту зберігається в цьому браузері (IndexedDB) для кожного підпису.",
+    sinceLast: "Від попереднього знімка",
+    filmsAdded: "Додано фільмів",
+    ratingsChanged: "Змінено оцінок",
+    ratingsDeleted: "Видалено оцінок",
+    meanShift: "Зсув середньої",
+    decadeShift: "Десятиліття: раніше vs зараз",
+    before: "Раніше",
+    now: "Зараз",
+    growth: "Хронологія зростання",
+    clearHistory: "Очистити історію",
+    firstSnapshot: "Перший знімок збережено. Завантажте новіший експорт пізніше, щоб побачити зміни."
   }
 };
 
 function ratingLabel(r: number): string { return String(r); }
 
-function aiDossier(films: FilmRecord[], stats: StatPack, anomaly: MergeAnomaly | null) {
-  const sorted = [...films].sort((a, b) => {
-    const da = a.watchedDates[a.watchedDates.length - 1] || "0000-00-00";
-    const db = b.watchedDates[b.watchedDates.length - 1] || "0000-00-00";
-    return db.localeCompare(da);
-  });
-  const entries = sorted.map((f) => ({
-    n: f.name,
-    y: f.year,
-    r: f.rating,
-    w: f.watchedDates,
-    rw: f.rewatchCount,
-    rv: f.reviewTextSamples.slice(0, 1)
-  }));
-
-  return {
-    totals: stats.totals,
-    rating: stats.ratings,
-    activity: stats.activity,
-    anomaly,
-    release: stats.releaseYears,
-    topWords: stats.text.topWords,
-    films: entries
-  };
+function downloadText(filename: string, text: string, mime: string) {
+  const url = URL.createObjectURL(new Blob([text], { type: mime }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
 }
 
 export default function App() {
   const [toast, setToast] = useState<string | null>(null);
   const [fileName, setFileName] = useState<string | null>(null);
-  const [films, setFilms] = useState<FilmRecord[] | null>(null);
-  const [stats, setStats] = useState<StatPack | null>(null);
+  const [importProgress, setImportProgress] = useState<ImportProgress | null>(null);
+  const [dragOver, setDragOver] = useState(false);
+  const [importFailure, setImportFailure] = useState<{ message: string; report?: ImportReport } | null>(null);
+  const [pasteOpen, setPasteOpen] = useState(false);
+  const [pasteText, setPasteText] = useState("");
+  const [allFilms, setAllFilms] = useState<FilmRecord[] | null>(null);
+  const [allStats, setAllStats] = useState<StatPack | null>(null);
+  const [scopeYear, setScopeYear] = useState<number | null>(null);
+  const [filter, setFilter] = useState<FilmFilter>(() => filterFromHash(window.location.hash));
   const [mergeAnomaly, setMergeAnomaly] = useState<MergeAnomaly | null>(null);
   const [debugSummary, setDebugSummary] = useState<MergeDebugSummary | null>(null);
   const [showDebug, setShowDebug] = useState<boolean>(false);
   const [label, setLabel] = useState<string>("");
   const [language, setLanguage] = useState<Lang>("en");
-  const [mode, setMode] = useState<"praise" | "roast">("roast");
+  const [mode, setMode] = useState<AiMode>("roast");
+  const [friend, setFriend] = useState<FriendExport | null>(null);
+  const [friendLabel, setFriendLabel] = useState<string>("");
+  const [history, setHistory] = useState<Snapshot[]>([]);
+  const [historyDiff, setHistoryDiff] = useState<SnapshotDiff | null>(null);
   const [roastLevel, setRoastLevel] = useState<1 | 2 | 3>(2);
-  const [provider, setProvider] = useState<Provider>("default");
+  const [provider, setProvider] = useState<string>("default");
+  const [providers, setProviders] = useState<{ default: string; providers: ProviderInfo[] }>({ default: "openai_compat", providers: FALLBACK_PROVIDERS });
   const [apiKey, setApiKey] = useState<string>("");
   const [baseUrl, setBaseUrl] = useState<string>("");
   const [model, setModel] = useState<string>("");
+  const [cacheOwnKey, setCacheOwnKey] = useState<boolean>(false);
   const [aiText, setAiText] = useState<string>("");
   const [aiBusy, setAiBusy] = useState<boolean>(false);
   const [aiProgress, setAiProgress] = useState(0);
+  const aiAbort = useRef<AbortController | null>(null);
+  const [aiMeta, setAiMeta] = useState<AiMeta | null>(null);
+  const [aiFinal, setAiFinal] = useState<ParsedReview | null>(null);
+  const [aiPartial, setAiPartial] = useState<ParsedReview | null>(null);
+  const aiParsedAt = useRef(0);
+  const [aiError, setAiError] = useState<string | null>(null);
+  const [aiDossierReport, setAiDossierReport] = useState<DossierReport | null>(null);
+  const [chat, setChat] = useState<ChatMessage[]>([]);
+  const [chatInput, setChatInput] = useState<string>("");
+  const [chatBusy, setChatBusy] = useState<boolean>(false);
+  const [chatError, setChatError] = useState<string | null>(null);
+  const chatAbort = useRef<AbortController | null>(null);
+  const [quota, setQuota] = useState<QuotaInfo | null>(null);
 
   const t = (k: string) => I18N[language][k] || k;
 
+  const years = useMemo(() => (allFilms ? availableYears(allFilms) : []), [allFilms]);
+  const yearReview = useMemo(
+    () => (allFilms && scopeYear !== null ? computeYearReview(allFilms, scopeYear, label) : null),
+    [allFilms, scopeYear, label]
+  );
+  const filterActive = isFilterActive(filter);
+  const films = useMemo(() => {
+    const scoped = yearReview ? yearReview.films : allFilms;
+    return scoped && filterActive ? applyFilter(scoped, filter) : scoped;
+  }, [allFilms, yearReview, filter, filterActive]);
+  const stats = useMemo(() => {
+    if (films && filterActive) return computeStats(films, label);
+    return yearReview ? yearReview.stats : allStats;
+  }, [films, filterActive, label, yearReview, allStats]);
+  const filterOptions = useMemo(() => {
+    const watched = (allFilms || []).filter((f) => f.watched);
+    return {
+      decades: Array.from(new Set(watched.map((f) => decadeOf(f.year)).filter((d): d is string => d !== null))).sort(),
+      tags: Array.from(new Set(watched.flatMap((f) => f.tags))).sort()
+    };
+  }, [allFilms]);
+
+  const comparison = useMemo(
+    () => (allFilms && allStats && friend ? compareExports(allFilms, allStats, friend.films, friend.stats) : null),
+    [allFilms, allStats, friend]
+  );
+  // Workers AI without a binding has nothing to fall back to, so it is hidden; keyed or URL-based providers stay selectable.
+  const providerOptions = providers.providers.filter((p) => p.hosted || p.acceptsKey || p.defaultBaseUrl !== null);
+  const modeInfo = AI_MODES.find((m) => m.id === mode) || AI_MODES[0];
+  const providerInfo = providers.providers.find((p) => p.id === (provider === "default" ? providers.default : provider)) || FALLBACK_PROVIDERS[0];
+  // The server's validated result wins once it arrives; until then the partial stream is parsed as it grows, throttled.
+  useEffect(() => {
+    if (aiFinal || !aiText) {
+      setAiPartial(null);
+      return;
+    }
+    const wait = aiBusy ? Math.max(0, aiParsedAt.current + PARTIAL_PARSE_MS - Date.now()) : 0;
+    const id = setTimeout(() => {
+      aiParsedAt.current = Date.now();
+      setAiPartial(parseReview(aiText));
+    }, wait);
+    return () => clearTimeout(id);
+  }, [aiFinal, aiText, aiBusy]);
+  const aiResult = aiFinal || aiPartial;
+  const aiRecommendations = useMemo(
+    () => (aiResult?.review && allFilms ? crossCheckRecommendations(aiResult.review.recommendations, allFilms) : []),
+    [aiResult, allFilms]
+  );
+  const youName = label.trim() || t("you");
+  const friendName = friendLabel.trim() || t("friend");
+
+  function refreshQuota() {
+    fetch("/api/quota")
+      .then((res) => (res.ok ? (res.json() as Promise<QuotaInfo>) : null))
+      .then((data) => { if (data?.ai && data?.chat) setQuota(data); })
+      .catch(() => {});
+  }
+
+  useEffect(refreshQuota, []);
+
+  useEffect(() => {
+    fetch("/api/providers")
+      .then((res) => (res.ok ? (res.json() as Promise<{ default: string; providers: ProviderInfo[] }>) : null))
+      .then((data) => { if (data && Array.isArray(data.providers)) setProviders(data); })
+      .catch(() => {});
+  }, []);
+
+  useEffect(() => {
+    const hash = filterToHash(filter);
+    window.history.replaceState(null, "", hash || window.location.pathname + window.location.search);
+  }, [filter]);
+
   function showToast(msg: string) {
     setToast(msg);
     window.setTimeout(() => setToast(null), 2200);
   }
 
-  async function importZip(input: Blob | ArrayBuffer, sourceName: string) {
+  async function importExport(input: ImportInput, sourceName: string) {
     setAiText("");
-    setStats(null);
-    setFilms(null);
+    setChat([]);
+    setAiFinal(null);
+    setAiError(null);
+    setAiMeta(null);
+    setAllStats(null);
+    setAllFilms(null);
+    setScopeYear(null);
     setMergeAnomaly(null);
     setDebugSummary(null);
+    setImportFailure(null);
     setFileName(sourceName);
     try {
-      const tables = await readLetterboxdExportZip(input);
-      const merged = mergeTablesToFilms(tables);
-      setFilms(merged.films);
+      const merged = await importInWorker(input, label, setImportProgress);
+      setAllFilms(merged.films);
       setMergeAnomaly(merged.anomaly);
       setDebugSummary(merged.debug);
-      setStats(computeStats(merged.films, label));
+      setAllStats(merged.stats);
       showToast("Import complete.");
+      void recordSnapshot(merged.films, merged.stats);
+    } catch (e: any) {
+      setImportFailure({ message: e?.message || "Import failed.", report: e instanceof ImportError ? e.report : undefined });
+      showToast("Import failed.");
+    } finally {
+      setImportProgress(null);
+    }
+  }
+
+  async function recordSnapshot(merged: FilmRecord[], computed: StatPack) {
+    try {
+      const snap = buildSnapshot(merged, computed, label);
+      const prior = await listSnapshots(snap.label);
+      const last = prior[prior.length - 1];
+      if (last && sameContent(last, snap)) {
+        setHistory(prior);
+        setHistoryDiff(prior.length > 1 ? diffSnapshots(prior[prior.length - 2], last) : null);
+        return;
+      }
+      await saveSnapshot(snap);
+      setHistory([...prior, snap]);
+      setHistoryDiff(last ? diffSnapshots(last, snap) : null);
+    } catch {
+      // IndexedDB can be unavailable (private mode); history is optional.
+      setHistory([]);
+      setHistoryDiff(null);
+    }
+  }
+
+  async function clearHistory() {
+    try {
+      await deleteSnapshots(snapshotLabel(label));
     } catch {
-      showToast("Import failed. Check ZIP format.");
+      // nothing stored
     }
+    setHistory([]);
+    setHistoryDiff(null);
+  }
+
+  async function onImportSource(source: ImportSource | null) {
+    if (!source) return showToast("No ZIP or CSV files found.");
+    await importExport(source.input, source.name);
+  }
+
+  async function onDropExport(e: React.DragEvent) {
+    e.preventDefault();
+    setDragOver(false);
+    await onImportSource(importSource(await droppedFiles(e.dataTransfer)));
   }
 
-  async function onUploadZip(f: File) {
-    await importZip(f, f.name);
+  async function onImportPasted() {
+    if (!pasteText.trim()) return;
+    await onImportSource(pastedSource(pasteText));
+    setPasteOpen(false);
+    setPasteText("");
+  }
+
+  async function onUploadFriend(source: ImportSource | null) {
+    if (!source) return showToast("No ZIP or CSV files found.");
+    try {
+      const merged = await importInWorker(source.input, friendLabel);
+      setFriend({ fileName: source.name, films: merged.films, stats: merged.stats });
+      showToast("Import complete.");
+    } catch (e: any) {
+      showToast(`Import failed. ${e?.message || ""}`.trim());
+    }
   }
 
   async function onLoadSample() {
@@ -270,34 +932,46 @@ export default function App() {
       const res = await fetch('/sample_data.zip', { cache: 'no-store' });
       if (!res.ok) throw new Error('sample_data.zip not found');
       const buf = await res.arrayBuffer();
-      await importZip(buf, 'sample_data.zip');
+      await importExport(buf, 'sample_data.zip');
     } catch {
       showToast('Failed to load sample_data.zip');
     }
   }
 
-  async function downloadShareCard() {
-    const el = document.getElementById("shareCard");
+  async function downloadShareCard(elementId = "shareCard", filename = "letterboxd-ai-card.png") {
+    const el = document.getElementById(elementId);
     if (!el) return showToast("Share card not ready.");
     const canvas = await html2canvas(el as HTMLElement, { backgroundColor: null, scale: 2 });
     const url = canvas.toDataURL("image/png");
     const a = document.createElement("a");
     a.href = url;
-    a.download = "letterboxd-ai-card.png";
+    a.download = filename;
     a.click();
   }
 
-  async function runAI() {
+  async function runAI(regenerate = false) {
     if (!stats || !films) return;
+    const ctrl = new AbortController();
+    aiAbort.current = ctrl;
     setAiBusy(true);
     setAiText("");
+    setChat([]);
+    setChatError(null);
+    setAiMeta(null);
+    setAiFinal(null);
+    setAiError(null);
     setAiProgress(8);
-    const id = window.setInterval(() => setAiProgress((p) => Math.min(p + 7, 92)), 700);
+    let text = "";
     try {
-      const dossier = aiDossier(films, stats, mergeAnomaly);
+      const duo = modeInfo.duo && friend && comparison;
+      // Two dossiers share one context window in duo mode.
+      const budget = Math.floor(dossierBudget(providerInfo.id, model || providerInfo.defaultModel) * (duo ? 0.45 : 1));
+      const { dossier, report } = compileDossier(films, stats, { anomaly: mergeAnomaly, yearReview, filter: filterActive ? describeFilter(filter) : null, budgetTokens: budget });
+      setAiDossierReport(report);
       const res = await fetch("/api/ai", {
         method: "POST",
         headers: { "content-type": "application/json" },
+        signal: ctrl.signal,
         body: JSON.stringify({
           provider,
           apiKey: apiKey || undefined,
@@ -306,27 +980,114 @@ export default function App() {
           language,
           mode,
           roastLevel,
-          profile: dossier
+          stream: true,
+          regenerate: regenerate || undefined,
+          cacheOwnKey: apiKey && cacheOwnKey ? true : undefined,
+          profile: dossier,
+          library: allFilms ? {
+            seen: allFilms.filter(isLogged).map((f) => [f.name, f.year]),
+            watchlist: allFilms.filter((f) => f.watchlisted && !isLogged(f)).map((f) => [f.name, f.year])
+          } : undefined,
+          ...(duo ? {
+            labels: { a: youName, b: friendName },
+            friendProfile: compileDossier(friend.films, friend.stats, { anomaly: null, yearReview: null, filter: null, budgetTokens: budget }).dossier,
+            comparison
+          } : {})
         })
       });
-      const data = (await res.json().catch(() => ({}))) as { text?: unknown; error?: unknown };
-      if (!res.ok) {
-        setAiText(typeof data.error === "string" ? data.error : "AI request failed.");
-      } else {
-        setAiText(typeof data.text === "string" ? data.text : "");
+      if (!res.ok || !res.body) {
+        const data = (await res.json().catch(() => ({}))) as { error?: unknown; attempts?: AiAttempt[] };
+        setAiError(typeof data.error === "string" ? data.error : "AI request failed.");
+        if (Array.isArray(data.attempts)) setAiMeta({ provider: "", model: "", attempts: data.attempts });
+        return;
+      }
+      setAiProgress(35);
+      for await (const ev of readEventStream(res.body)) {
+        const data = JSON.parse(ev.data) as { delta?: string; error?: string } & Partial<AiMeta> & Partial<ParsedReview>;
+        if (ev.event === "error") {
+          setAiError(data.error || "AI request failed.");
+          break;
+        }
+        if (ev.event === "done") {
+          setAiFinal({ review: data.review || null, repairs: data.repairs || [] });
+          setAiMeta({ provider: data.provider || "", model: data.model || "", attempts: data.attempts || [], cachedAt: data.cachedAt });
+          break;
+        }
+        text += data.delta || "";
+        setAiText(text);
+        setAiProgress(35 + Math.round(60 * Math.min(1, text.length / EXPECTED_AI_CHARS)));
       }
     } catch {
-      setAiText("AI request failed.");
+      setAiError(ctrl.signal.aborted ? t("aiCancelled") : "AI request failed.");
     } finally {
-      window.clearInterval(id);
+      aiAbort.current = null;
       setAiProgress(100);
       window.setTimeout(() => setAiProgress(0), 1200);
       setAiBusy(false);
+      refreshQuota();
+    }
+  }
+
+  async function askChat() {
+    const question = chatInput.trim();
+    if (!stats || !films || !question || chatBusy) return;
+    const ctrl = new AbortController();
+    chatAbort.current = ctrl;
+    const asked = [...chat, { role: "user" as const, content: question }];
+    setChat([...asked, { role: "assistant", content: "" }]);
+    setChatInput("");
+    setChatBusy(true);
+    setChatError(null);
+    let text = "";
+    try {
+      // The dossier goes with every turn (the server keeps nothing); history gets the part of the budget it leaves.
+      const budget = dossierBudget(providerInfo.id, model || providerInfo.defaultModel);
+      const { dossier } = compileDossier(films, stats, { anomaly: mergeAnomaly, yearReview, filter: filterActive ? describeFilter(filter) : null, budgetTokens: Math.floor(budget * 0.7) });
+      const res = await fetch("/api/chat", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        signal: ctrl.signal,
+        body: JSON.stringify({
+          provider,
+          apiKey: apiKey || undefined,
+          baseUrl: baseUrl || undefined,
+          model: model || undefined,
+          language,
+          stream: true,
+          profile: dossier,
+          review: aiText || undefined,
+          messages: trimHistory(asked, Math.floor(budget * 0.3))
+        })
+      });
+      if (!res.ok || !res.body) {
+        const data = (await res.json().catch(() => ({}))) as { error?: unknown };
+        setChatError(typeof data.error === "string" ? data.error : "AI request failed.");
+        return;
+      }
+      for await (const ev of readEventStream(res.body)) {
+        const data = JSON.parse(ev.data) as { delta?: string; error?: string };
+        if (ev.event === "error") {
+          setChatError(data.error || "AI request failed.");
+          break;
+        }
+        if (ev.event === "done") break;
+        text += data.delta || "";
+        setChat([...asked, { role: "assistant", content: text }]);
+      }
+    } catch {
+      setChatError(ctrl.signal.aborted ? t("aiCancelled") : "AI request failed.");
+    } finally {
+      // A failed turn leaves no empty answer behind; the question stays so it can be edited and asked again.
+      if (!text) setChat(asked);
+      chatAbort.current = null;
+      setChatBusy(false);
+      refreshQuota();
     }
   }
 
   const topDecades = stats?.releaseYears.decadeBuckets ? [...stats.releaseYears.decadeBuckets].sort((a, b) => b.count - a.count).slice(0, 8).map((d) => ({ label: d.decade, value: d.count })) : [];
   const topReleaseYears = stats?.releaseYears.top ? stats.releaseYears.top.map((y) => ({ label: String(y.year), value: y.count })) : [];
+  const watchlistDecades = stats?.watchlist.decadeMix ? stats.watchlist.decadeMix.map((d) => ({ label: d.decade, a: d.backlogShare, b: d.watchedShare })) : [];
   const ratingHistogram = stats?.ratings.histogram ? stats.ratings.histogram.map((h) => ({ label: ratingLabel(h.rating), value: h.count })) : [];
 
   const altTasteBoard = useMemo(() => {
@@ -334,7 +1095,7 @@ export default function App() {
     const high = films.filter((f) => (f.rating ?? 0) >= 4).length;
     const low = films.filter((f) => (f.rating ?? 5) <= 2).length;
     const rewatchShare = stats.totals.filmsWatched ? Math.round((stats.totals.rewatchFilms / stats.totals.filmsWatched) * 100) : 0;
-    const oldies = films.filter((f) => (f.year ?? 3000) < 1980).length;
+    const oldies = films.filter((f) => f.watched && (f.year ?? 3000) < 1980).length;
     return [
       { label: "Exploration Index", value: `${Math.max(0, 100 - rewatchShare)} / 100` },
       { label: "Harshness", value: `${Math.round((low / Math.max(1, high + low)) * 100)}%` },
@@ -360,11 +1121,47 @@ export default function App() {
       <div className="grid">
         <div className="card">
           <h2>{t("importTitle")}</h2>
-          <div className="drop">
-            <input type="file" accept=".zip" onChange={(e) => { const f = e.target.files?.[0]; if (f) void onUploadZip(f); }} />
+          <div
+            className={dragOver ? "drop over" : "drop"}
+            onDragOver={(e) => { e.preventDefault(); setDragOver(true); }}
+            onDragLeave={() => setDragOver(false)}
+            onDrop={onDropExport}
+          >
+            <input type="file" accept=".zip,.csv,.json" multiple onChange={(e) => { if (e.target.files?.length) void onImportSource(importSource(pickedFiles(e.target.files))); e.target.value = ""; }} />
             <div className="small">{fileName || t("uploadHint")}</div>
+            {importProgress && <div style={{ marginTop: 8 }}>
+              <div className="bar"><div style={{ width: `${importPercent(importProgress)}%` }} /></div>
+              <div className="small" style={{ marginTop: 6 }}>
+                {importProgress.stage === "read" && <>{t("importReading")} {importProgress.file} · {t("importFiles")} {importProgress.filesDone} / {importProgress.filesTotal} · {t("importRows")} {formatInt(importProgress.rows)}</>}
+                {importProgress.stage === "merge" && <>{t("importMerging")} {formatInt(importProgress.rowsDone)} / {formatInt(importProgress.rowsTotal)} {t("importRows")} · {t("importFilms")} {formatInt(importProgress.films)}</>}
+                {importProgress.stage === "stats" && <>{t("importStats")} · {t("importFilms")} {formatInt(importProgress.films)}</>}
+              </div>
+            </div>}
+            {importFailure && <div style={{ marginTop: 8 }}>
+              <div className="small"><b>{t("importFailed")}</b> {importFailure.message}</div>
+              <ReportMessages messages={importFailure.report?.messages || []} />
+            </div>}
+            {debugSummary && debugSummary.importReport.messages.length > 0 && <div style={{ marginTop: 8 }}>
+              <div className="small">
+                {t("importReport")}: {debugSummary.importReport.messages.filter((m) => m.level === "error").length} {t("importErrors")} · {debugSummary.importReport.messages.filter((m) => m.level === "warning").length} {t("importWarnings")}
+              </div>
+              <ReportMessages messages={debugSummary.importReport.messages} />
+            </div>}
             <div className="small">{t("localOnly")}</div>
-            <button className="btn primary" style={{ marginTop: 10 }} onClick={onLoadSample}>{t("loadSample")}</button>
+            <div className="row" style={{ marginTop: 10 }}>
+              <button className="btn primary" onClick={onLoadSample}>{t("loadSample")}</button>
+              <button className="btn" onClick={() => setPasteOpen(!pasteOpen)}>{t("pasteCsv")}</button>
+            </div>
+            {pasteOpen && <div style={{ marginTop: 10 }}>
+              <textarea
+                rows={6}
+                value={pasteText}
+                onChange={(e) => setPasteText(e.target.value)}
+                placeholder={t("pastePlaceholder")}
+                style={{ width: "100%", resize: "vertical", fontFamily: "monospace" }}
+              />
+              <button className="btn primary" style={{ marginTop: 6 }} onClick={onImportPasted} disabled={!pasteText.trim()}>{t("pasteImport")}</button>
+            </div>}
           </div>
 
           <div className="row" style={{ marginTop: 12 }}>
@@ -372,6 +1169,13 @@ export default function App() {
               <div className="small">{t("label")}</div>
               <input value={label} onChange={(e) => setLabel(e.target.value)} placeholder="Optional" />
             </div>
+            {years.length > 0 && <div>
+              <div className="small">{t("scope")}</div>
+              <select value={scopeYear ?? ""} onChange={(e) => setScopeYear(e.target.value ? Number(e.target.value) : null)}>
+                <option value="">{t("allTime")}</option>
+                {years.map((y) => <option key={y} value={y}>{y}</option>)}
+              </select>
+            </div>}
             <div>
               <div className="small">{t("language")}</div>
               <select value={language} onChange={(e) => setLanguage(e.target.value as Lang)}>
@@ -388,10 +1192,22 @@ export default function App() {
             <li>{t("t1")}</li><li>{t("t2")}</li><li>{t("t3")}</li><li>{t("t4")}</li>
           </ul>
 
-          {films && <div className="row" style={{ marginTop: 10 }}>
-            <span className="badge">{formatInt(films.length)} {t("merged")}</span>
-            <span className="badge">{t("watchedDates")}: {formatInt(films.flatMap((f) => f.watchedDates).length)}</span>
-            <span className="badge">{t("reviewSamples")}: {formatInt(films.flatMap((f) => f.reviewTextSamples).length)}</span>
+          {allFilms && <div className="row" style={{ marginTop: 10 }}>
+            <span className="badge">{formatInt(allFilms.length)} {t("merged")}</span>
+            <span className="badge">{t("watchedDates")}: {formatInt(allFilms.flatMap((f) => f.watchedDates).length)}</span>
+            <span className="badge">{t("reviewSamples")}: {formatInt(allFilms.flatMap((f) => f.reviewTextSamples).length)}</span>
+          </div>}
+
+          {allFilms && allStats && mergeAnomaly && debugSummary && <div style={{ marginTop: 10 }}>
+            <div className="small">{t("exportTitle")}</div>
+            <div className="row" style={{ marginTop: 6 }}>
+              <button className="btn" onClick={() => downloadText("letterboxd-films.csv", filmsToCSV(allFilms), "text/csv;charset=utf-8")}>{t("exportFilmsCsv")}</button>
+              <button className="btn" onClick={() => downloadText("letterboxd-films.json", filmsToJSON(allFilms), "application/json")}>{t("exportFilmsJson")}</button>
+              <button className="btn" onClick={() => downloadText("letterboxd-diary.csv", diaryToCSV(allFilms), "text/csv;charset=utf-8")}>{t("exportDiaryCsv")}</button>
+              <button className="btn" onClick={() => downloadText("letterboxd-stats.json", statsToJSON(allStats), "application/json")}>{t("exportStatsJson")}</button>
+              <button className="btn primary" onClick={() => downloadText(`letterboxd-bundle-${new Date().toISOString().slice(0, 10)}.json`, toBundle({ films: allFilms, anomaly: mergeAnomaly, debug: debugSummary }, label.trim() || null), "application/json")}>{t("exportBundle")}</button>
+            </div>
+            <div className="small" style={{ marginTop: 6 }}>{t("exportBundleHint")}</div>
           </div>}
 
           {debugSummary && <div style={{ marginTop: 10 }}>
@@ -415,15 +1231,80 @@ export default function App() {
               <div className="small">largestSingleDayImportCount: {debugSummary.largestSingleDayImportCount} ({debugSummary.largestSingleDayImportDate || "n/a"})</div>
               <div className="small">watchedDateSpanYears: {debugSummary.watchedDateSpanYears}</div>
               <div className="small">importSpikeDetected: {String(debugSummary.importSpikeDetected)}</div>
+              <div className="small">watchlist_rows_total: {debugSummary.watchlistRowsTotal} (also watched: {debugSummary.watchlistAlsoWatchedCount})</div>
+              <div className="small">likes_rows_total: {debugSummary.likesRowsTotal} (liked films: {debugSummary.likedFilmsCount})</div>
+              <div className="small">lists: {debugSummary.listsDetected}, entries: {debugSummary.listEntriesTotal}, matched to watched: {debugSummary.listEntriesMatchedToWatchedCount}</div>
+              <div className="small">identity: uri {debugSummary.identity.byMethod.uri}, title {debugSummary.identity.byMethod.title}, fuzzy {debugSummary.identity.byMethod.fuzzy}, new {debugSummary.identity.byMethod.new}, ambiguous {debugSummary.identity.ambiguousTitleMatches}</div>
+              {debugSummary.identity.collisions.map((c) => (
+                <div className="small" key={c.keys.join("|")}>• collision: {c.name} ({c.year ?? "n/a"}) → {c.keys.join(", ")}</div>
+              ))}
+              {debugSummary.identity.fuzzyMerges.map((m) => (
+                <div className="small" key={`${m.key}:${m.year}`}>• fuzzy: {m.name} ({m.year ?? "n/a"}) → {m.matchedYear ?? "n/a"} [{m.key}]</div>
+              ))}
+              <div className="small">deleted files ignored: {debugSummary.deletedFilesIgnored.join(", ") || "none"}</div>
+              <div className="small" style={{ marginTop: 8 }}>import report:</div>
+              {debugSummary.importReport.tables.map((r) => (
+                <div className="small" key={r.file}>
+                  • {r.file} → {r.table} (by {r.detectedBy}) rows:{r.rows} missing:{[...r.missingRequired, ...r.missingOptional].join("/") || "none"} bad dates:{r.badDates.count} bad ratings:{r.badRatings.count} bad years:{r.badYears.count} duplicates:{r.duplicates.count}
+                  {[...r.badDates.samples, ...r.badRatings.samples, ...r.badYears.samples].slice(0, 5).map((x) => ` [row ${x.row} ${x.column}="${x.value}"]`).join("")}
+                  {r.duplicates.samples.slice(0, 5).map((d) => ` [row ${d.row} = row ${d.firstRow}]`).join("")}
+                </div>
+              ))}
               <div className="small" style={{ marginTop: 8 }}>sample films:</div>
               {debugSummary.randomFilmSamples.map((x) => (
-                <div className="small" key={x.key}>• {x.name} [{x.sources.join("/")}] dates:{x.watchDatesCount} rating:{String(x.hasRating)} review:{String(x.hasReview)} tags:{String(x.hasTags)}</div>
+                <div className="small" key={x.key}>• {x.name} [{x.sources.join("/")}] dates:{x.watchDatesCount} rating:{String(x.hasRating)} review:{String(x.hasReview)} tags:{String(x.hasTags)} match:{x.matchedBy.join("/")} liked:{String(x.liked)} lists:{x.listCount}</div>
               ))}
             </div>}
           </div>}
         </div>
 
         {stats && <>
+          <FilterBar
+            value={filter}
+            onChange={setFilter}
+            decades={filterOptions.decades}
+            tags={filterOptions.tags}
+            shown={stats.totals.filmsWatched}
+            total={(yearReview ? yearReview.stats : allStats)?.totals.filmsWatched ?? 0}
+            labels={{ title: t("filters"), from: t("from"), to: t("to"), decade: t("decade"), tag: t("tag"), ratingMin: t("ratingMin"), ratingMax: t("ratingMax"), any: t("any"), rewatchOnly: t("rewatchOnly"), reviewedOnly: t("reviewedOnly"), clear: t("clearFilters"), showing: t("showing") }}
+          />
+          {yearReview && <>
+            <div className="card">
+              <h2>{t("yearReview")} · {yearReview.year}</h2>
+              <div className="row" style={{ alignItems: "stretch" }}>
+                {([
+                  ["filmsLogged", yearReview.totals.filmsLogged, yearReview.previous?.filmsLogged],
+                  ["diaryEntries", yearReview.totals.diaryEntries, yearReview.previous?.diaryEntries],
+                  ["hoursEstimated", yearReview.totals.hoursEstimated, yearReview.previous?.hoursEstimated]
+                ] as Array<[string, number, number | undefined]>).map(([k, v, prev]) => (
+                  <div className="kpi" style={{ flex: 1 }} key={k}>
+                    <div className="label">{t(k)}</div>
+                    <div className="value">{formatInt(v)}</div>
+                    {prev !== undefined && <div className="small">{v - prev >= 0 ? "+" : ""}{formatInt(v - prev)} {t("vsPrevious")}</div>}
+                  </div>
+                ))}
+                <div className="kpi" style={{ flex: 1 }}>
+                  <div className="label">{t("mean")}</div>
+                  <div className="value">{yearReview.totals.meanRating === null ? "n/a" : round3(yearReview.totals.meanRating)}</div>
+                  {yearReview.previous?.meanRating != null && yearReview.totals.meanRating !== null && <div className="small">{yearReview.totals.meanRating - yearReview.previous.meanRating >= 0 ? "+" : ""}{round3(yearReview.totals.meanRating - yearReview.previous.meanRating)} {t("vsPrevious")}</div>}
+                </div>
+              </div>
+            </div>
+            <div className="span6"><BarList title={t("monthCurve")} items={yearReview.byMonth.map((m) => ({ label: m.month.slice(5), value: m.count }))} emptyText={t("noData")} /></div>
+            <div className="span6"><BarList title={t("newVsOld")} items={[{ label: t("newReleases"), value: yearReview.releaseSplit.newReleases }, { label: t("olderReleases"), value: yearReview.releaseSplit.older }]} emptyText={t("noData")} /></div>
+            <div className="card span6">
+              <h2>{t("bestFirstWatches")}</h2>
+              {yearReview.bestFirstWatches.length === 0 ? <p>{t("noData")}</p> : yearReview.bestFirstWatches.map((f) => (
+                <div className="small" key={`${f.name}:${f.year}`}>★ {f.rating} · {f.name} ({f.year ?? "n/a"}) · {f.watchedAt}</div>
+              ))}
+            </div>
+            <div className="card span6">
+              <h2>{t("mostRewatched")}</h2>
+              {yearReview.mostRewatched.length === 0 ? <p>{t("noData")}</p> : yearReview.mostRewatched.map((f) => (
+                <div className="small" key={`${f.name}:${f.year}`}>{f.watches}× · {f.name} ({f.year ?? "n/a"})</div>
+              ))}
+            </div>
+          </>}
           <div className="card span3"><h2>{t("watched")}</h2><div className="kpi"><div className="value">{formatInt(stats.totals.filmsWatched)}</div></div></div>
           <div className="card span3"><h2>{t("rated")}</h2><div className="kpi"><div className="value">{formatInt(stats.totals.filmsRated)}</div></div></div>
           <div className="card span3"><h2>{t("mean")}</h2><div className="kpi"><div className="value">{stats.ratings.mean === null ? "n/a" : round3(stats.ratings.mean)}</div></div></div>
@@ -450,35 +1331,229 @@ export default function App() {
           <div className="span6"><BarList title="Top release years" items={topReleaseYears} emptyText={t("noData")} /></div>
           <div className="span6"><BarList title="Top decades" items={topDecades} emptyText={t("noData")} /></div>
 
+          <div className="card span6">
+            <h2>{t("watchlistTitle")}</h2>
+            <div className="row" style={{ alignItems: "stretch" }}>
+              <div className="kpi" style={{ flex: 1 }}><div className="label">{t("backlog")}</div><div className="value">{formatInt(stats.watchlist.backlogSize)}</div></div>
+              <div className="kpi" style={{ flex: 1 }}><div className="label">{t("backlogAge")}</div><div className="value">{stats.watchlist.medianAgeDays === null ? "n/a" : formatInt(Math.round(stats.watchlist.medianAgeDays))}</div></div>
+            </div>
+            <div className="row" style={{ alignItems: "stretch", marginTop: 10 }}>
+              <div className="kpi" style={{ flex: 1 }}><div className="label">{t("addedRecently")}</div><div className="value">{formatInt(stats.watchlist.addedLast90)}</div></div>
+              <div className="kpi" style={{ flex: 1 }}><div className="label">{t("fromWatchlist")}</div><div className="value">{formatInt(stats.watchlist.watchedFromWatchlist)} ({formatPct(stats.watchlist.conversionShare)})</div></div>
+            </div>
+          </div>
+          <div className="span6"><CompareBars title={t("decadeMix")} items={watchlistDecades} legend={[t("backlogLegend"), t("watchedLegend")]} emptyText={t("noData")} /></div>
+
+          <div className="card">
+            <h2>{t("driftTitle")}</h2>
+            <div className="row" style={{ alignItems: "stretch" }}>
+              <div className="kpi" style={{ flex: 1 }}><div className="label">{t("disagreeing")}</div><div className="value">{formatInt(stats.ratings.drift.disagreeing)}</div></div>
+              <div className="kpi" style={{ flex: 1 }}><div className="label">{t("raised")}</div><div className="value">{formatInt(stats.ratings.drift.raised)}</div></div>
+              <div className="kpi" style={{ flex: 1 }}><div className="label">{t("lowered")}</div><div className="value">{formatInt(stats.ratings.drift.lowered)}</div></div>
+              <div className="kpi" style={{ flex: 1 }}><div className="label">{t("meanDrift")}</div><div className="value">{stats.ratings.drift.meanDelta === null ? "n/a" : round1(stats.ratings.drift.meanDelta)}</div></div>
+            </div>
+            <div style={{ marginTop: 10 }}>
+              {stats.ratings.drift.changedMind.length === 0 ? <p>{t("noData")}</p> : stats.ratings.drift.changedMind.map((c) => (
+                <div className="small" key={`${c.name}:${c.year}`}>{c.delta > 0 ? "▲" : "▼"} {c.name} ({c.year ?? "n/a"}): {c.diaryRatings.join(" → ")}{c.current !== null ? ` ⇒ ${c.current}` : ""}</div>
+              ))}
+            </div>
+          </div>
+
+          <div className="card">
+            <h2>{t("tagsTitle")}</h2>
+            {stats.tags.taggedEntries === 0 ? <p>{t("noData")}</p> : <div className="grid" style={{ marginTop: 0 }}>
+              <div className="span6"><BarList title={t("topTags")} items={stats.tags.frequency.slice(0, 10).map((x) => ({ label: x.tag, value: x.count }))} emptyText={t("noData")} /></div>
+              <div className="card span6">
+                <h2>{t("tagRatings")}</h2>
+                {stats.tags.meanRatingByTag.length === 0 ? <p>{t("noData")}</p> : stats.tags.meanRatingByTag.map((x) => (
+                  <div className="small" key={x.tag}>{x.tag}: ★ {round1(x.meanRating)} ({x.films})</div>
+                ))}
+              </div>
+              <div className="card span6">
+                <h2>{t("tagPairs")}</h2>
+                {stats.tags.pairs.length === 0 ? <p>{t("noData")}</p> : stats.tags.pairs.map((x) => (
+                  <div className="small" key={`${x.a}+${x.b}`}>{x.a} + {x.b}: {x.count}</div>
+                ))}
+              </div>
+              <div className="card span6">
+                <h2>{t("tagPredictors")}</h2>
+                {stats.tags.predictors.length === 0 ? <p>{t("noData")}</p> : stats.tags.predictors.map((x) => (
+                  <div className="small" key={x.tag}>{x.tag}: {formatPct(x.highShare)} ≥ ★4 (×{round1(x.lift)}, {x.films})</div>
+                ))}
+              </div>
+              <div className="card">
+                <h2>{t("tagTimeline")}</h2>
+                {stats.tags.byMonth.slice(-12).map((m) => (
+                  <div className="small" key={m.month}>{m.month}: {Object.entries(m.counts).filter(([, c]) => c > 0).map(([tag, c]) => `${tag} ${c}`).join(" · ") || "—"}</div>
+                ))}
+              </div>
+            </div>}
+          </div>
+
+          <div className="card">
+            <div className="row" style={{ justifyContent: "space-between" }}>
+              <h2 style={{ margin: 0 }}>{t("rewatchTitle")}</h2>
+              <button className="btn" disabled={!stats.rewatch.rows.length} onClick={() => downloadText("letterboxd-rewatches.csv", rewatchTableToCSV(stats.rewatch), "text/csv;charset=utf-8")}>{t("exportCsv")}</button>
+            </div>
+            <div className="row" style={{ alignItems: "stretch", marginTop: 10 }}>
+              <div className="kpi" style={{ flex: 1 }}><div className="label">{t("rewatchedFilms")}</div><div className="value">{formatInt(stats.rewatch.rewatchedFilms)}</div></div>
+              <div className="kpi" style={{ flex: 1 }}><div className="label">{t("rewatchShare")}</div><div className="value">{formatPct(stats.rewatch.totalWatches ? stats.rewatch.totalRewatches / stats.rewatch.totalWatches : 0)}</div></div>
+              <div className="kpi" style={{ flex: 1 }}><div className="label">{t("avgGap")}</div><div className="value">{stats.rewatch.avgGapDays === null ? "n/a" : formatInt(Math.round(stats.rewatch.avgGapDays))}</div></div>
+              <div className="kpi" style={{ flex: 1 }}><div className="label">{t("ratingShift")}</div><div className="value">{stats.rewatch.ratingChanges.meanChange === null ? "n/a" : round1(stats.rewatch.ratingChanges.meanChange)}</div><div className="small">{stats.rewatch.ratingChanges.up} {t("up")} · {stats.rewatch.ratingChanges.down} {t("down")} · {stats.rewatch.ratingChanges.same} {t("same")}</div></div>
+            </div>
+            <div className="grid" style={{ marginTop: 10 }}>
+              <div className="card span6">
+                <h2>{t("mostRewatched")}</h2>
+                {stats.rewatch.mostRewatched.length === 0 ? <p>{t("noData")}</p> : stats.rewatch.mostRewatched.map((r) => (
+                  <div className="small" key={`${r.name}:${r.year}`}>{r.watches}× · {r.name} ({r.year ?? "n/a"}){r.avgGapDays !== null ? ` · ~${Math.round(r.avgGapDays)}d` : ""}{r.ratingChange !== null ? ` · ${r.diaryRatings.join(" → ")}` : ""}</div>
+                ))}
+              </div>
+              <div className="card span6">
+                <h2>{t("comfortFilms")}</h2>
+                {stats.rewatch.comfortFilms.length === 0 ? <p>{t("noData")}</p> : stats.rewatch.comfortFilms.map((r) => (
+                  <div className="small" key={`${r.name}:${r.year}`}>{r.name} ({r.year ?? "n/a"}) · {r.distinctYears}</div>
+                ))}
+              </div>
+              <div style={{ gridColumn: "span 12" }}><BarList title={t("rewatchByYear")} items={stats.rewatch.byYear.map((y) => ({ label: y.year, value: Math.round(y.share * 100) }))} emptyText={t("noData")} /></div>
+            </div>
+          </div>
+
           <div className="card">
             <h2>{t("share")}</h2>
             <div className="row">
               <button className="btn primary" onClick={async () => { await navigator.clipboard.writeText(stats.shareText.long); showToast("Copied"); }}>{t("copySummary")}</button>
-              <button className="btn primary" onClick={downloadShareCard}>{t("downloadCard")}</button>
+              <button className="btn primary" onClick={() => downloadShareCard()}>{t("downloadCard")}</button>
             </div>
             <div style={{ marginTop: 12 }}>
               <ShareCard
                 stats={stats}
                 label={label}
-                labels={{ generated: "Generated", badge: "Badge", watched: t("watched"), rated: t("rated"), meanRating: "Mean", median: "Median", longestStreak: "Streak", commitment: t("commitment"), topWords: "Top words", oneLine: "One line", na: "n/a", titleSuffix: "taste report" }}
+                filterText={filterActive ? describeFilter(filter) : undefined}
+                labels={{ generated: "Generated", badge: "Badge", watched: t("watched"), rated: t("rated"), meanRating: "Mean", median: "Median", longestStreak: "Streak", commitment: t("commitment"), topWords: "Top words", oneLine: "One line", filter: t("filter"), na: "n/a", titleSuffix: scopeYear ? `${scopeYear} taste report` : "taste report" }}
               />
             </div>
           </div>
 
+          {history.length > 0 && <div className="card">
+            <div className="row" style={{ justifyContent: "space-between" }}>
+              <h2 style={{ margin: 0 }}>{t("historyTitle")}</h2>
+              <button className="btn danger" onClick={clearHistory}>{t("clearHistory")}</button>
+            </div>
+            <p className="small">{t("historyHint")}</p>
+            {!historyDiff ? <p>{t("firstSnapshot")}</p> : <>
+              <div className="small">{t("sinceLast")}: {historyDiff.from.slice(0, 10)} → {historyDiff.to.slice(0, 10)}</div>
+              <div className="row" style={{ alignItems: "stretch", marginTop: 10 }}>
+                <div className="kpi" style={{ flex: 1 }}><div className="label">{t("filmsAdded")}</div><div className="value">{formatInt(historyDiff.filmsAdded.length)}</div></div>
+                <div className="kpi" style={{ flex: 1 }}><div className="label">{t("ratingsChanged")}</div><div className="value">{formatInt(historyDiff.ratingsChanged.length)}</div></div>
+                <div className="kpi" style={{ flex: 1 }}><div className="label">{t("ratingsDeleted")}</div><div className="value">{formatInt(historyDiff.ratingsDeleted.length)}</div></div>
+                <div className="kpi" style={{ flex: 1 }}><div className="label">{t("meanShift")}</div><div className="value">{historyDiff.meanShift === null ? "n/a" : `${historyDiff.meanShift >= 0 ? "+" : ""}${round3(historyDiff.meanShift)}`}</div></div>
+              </div>
+              <div className="grid" style={{ marginTop: 10 }}>
+                <div className="card span6">
+                  <h2>{t("ratingsChanged")}</h2>
+                  {historyDiff.ratingsChanged.length === 0 ? <p>{t("noData")}</p> : historyDiff.ratingsChanged.slice(0, 15).map((c) => (
+                    <div className="small" key={`${c.name}:${c.year}`}>{c.name} ({c.year ?? "n/a"}): {c.before} → {c.after}</div>
+                  ))}
+                  {historyDiff.ratingsDeleted.slice(0, 10).map((c) => (
+                    <div className="small" key={`del:${c.name}:${c.year}`}>{c.name} ({c.year ?? "n/a"}): {c.before} → ∅</div>
+                  ))}
+                </div>
+                <div className="card span6">
+                  <h2>{t("filmsAdded")}</h2>
+                  {historyDiff.filmsAdded.length === 0 ? <p>{t("noData")}</p> : historyDiff.filmsAdded.slice(0, 15).map((f) => (
+                    <div className="small" key={`${f.name}:${f.year}`}>{f.name} ({f.year ?? "n/a"})</div>
+                  ))}
+                </div>
+                <div className="span6"><CompareBars title={t("decadeShift")} items={historyDiff.decadeShift.map((d) => ({ label: d.decade, a: d.before, b: d.after }))} legend={[t("before"), t("now")]} emptyText={t("noData")} /></div>
+                <div className="card span6">
+                  <h2>{t("growth")}</h2>
+                  {growthTimeline(history).map((g) => (
+                    <div className="small" key={g.savedAt}>{g.savedAt.slice(0, 10)} · {t("watched")} {formatInt(g.watched)} · {t("rated")} {formatInt(g.rated)} · {t("mean")} {g.mean === null ? "n/a" : round3(g.mean)}</div>
+                  ))}
+                </div>
+              </div>
+            </>}
+          </div>}
+
+          <div className="card">
+            <h2>{t("compareTitle")}</h2>
+            <div className="row">
+              <div className="drop" style={{ flex: 1 }}>
+                <input type="file" accept=".zip,.csv,.json" multiple onChange={(e) => { if (e.target.files?.length) void onUploadFriend(importSource(pickedFiles(e.target.files))); e.target.value = ""; }} />
+                <div className="small">{friend?.fileName || t("compareHint")}</div>
+              </div>
+              <div>
+                <div className="small">{t("friendLabel")}</div>
+                <input value={friendLabel} onChange={(e) => setFriendLabel(e.target.value)} placeholder="Optional" />
+              </div>
+              {friend && <button className="btn danger" onClick={() => { setFriend(null); if (modeInfo.duo) setMode("roast"); }}>{t("removeFriend")}</button>}
+            </div>
+
+            {friend && comparison && <>
+              <div className="row" style={{ alignItems: "stretch", marginTop: 12 }}>
+                <div className="kpi" style={{ flex: 1 }}><div className="label">{t("compatibility")}</div><div className="value">{comparison.compatibility}/100</div></div>
+                <div className="kpi" style={{ flex: 1 }}><div className="label">{t("shared")}</div><div className="value">{formatInt(comparison.overlap.shared)}</div><div className="small">{t("onlyYou")} {formatInt(comparison.overlap.onlyA)} · {t("onlyFriend")} {formatInt(comparison.overlap.onlyB)}</div></div>
+                <div className="kpi" style={{ flex: 1 }}><div className="label">{t("ratingCorrelation")}</div><div className="value">{comparison.agreement.correlation === null ? "n/a" : round3(comparison.agreement.correlation)}</div></div>
+                <div className="kpi" style={{ flex: 1 }}><div className="label">{t("meanAbsDiff")}</div><div className="value">{comparison.agreement.meanAbsDiff === null ? "n/a" : round3(comparison.agreement.meanAbsDiff)}</div><div className="small">n = {comparison.agreement.sharedRated}</div></div>
+              </div>
+              <div className="grid" style={{ marginTop: 10 }}>
+                <div className="card span6">
+                  <h2>{t("disagreementsTitle")}</h2>
+                  {comparison.disagreements.length === 0 ? <p>{t("noData")}</p> : comparison.disagreements.map((d) => (
+                    <div className="small" key={`${d.name}:${d.year}`}>{d.name} ({d.year ?? "n/a"}): {youName} {d.a} · {friendName} {d.b}</div>
+                  ))}
+                </div>
+                <div className="card span6">
+                  <h2>{t("agreementsTitle")}</h2>
+                  {comparison.agreements.length === 0 ? <p>{t("noData")}</p> : comparison.agreements.map((d) => (
+                    <div className="small" key={`${d.name}:${d.year}`}>★ {d.rating} · {d.name} ({d.year ?? "n/a"})</div>
+                  ))}
+                </div>
+                <div className="span6"><CompareBars title={t("decadePrefs")} items={comparison.decades.map((d) => ({ label: d.decade, a: d.a, b: d.b }))} legend={[youName, friendName]} emptyText={t("noData")} /></div>
+                <div className="span6"><CompareBars title={t("tagPrefs")} items={comparison.tags.map((d) => ({ label: d.tag, a: d.a, b: d.b }))} legend={[youName, friendName]} emptyText={t("noData")} /></div>
+              </div>
+              <div className="row" style={{ marginTop: 12 }}>
+                <button className="btn primary" onClick={() => downloadShareCard("duoShareCard", "letterboxd-duo-card.png")}>{t("downloadDuoCard")}</button>
+              </div>
+              <div style={{ marginTop: 12 }}>
+                <DuoShareCard
+                  a={{ name: youName, stats: allStats! }}
+                  b={{ name: friendName, stats: friend.stats }}
+                  comparison={comparison}
+                  labels={{ compatibility: t("compatibility"), watched: t("watched"), meanRating: t("mean"), shared: t("shared"), agreement: t("meanAbsDiff"), biggestFight: t("disagreementsTitle"), badge: "Badge", na: "n/a" }}
+                />
+              </div>
+            </>}
+          </div>
+
           <div className="card">
             <h2>{t("ai")}</h2>
             <div className="row">
-              <div><div className="small">{t("mode")}</div><select value={mode} onChange={(e) => setMode(e.target.value as any)}><option value="roast">{t("roast")}</option><option value="praise">{t("praise")}</option></select></div>
+              <div><div className="small">{t("mode")}</div><select value={mode} onChange={(e) => setMode(e.target.value as AiMode)}>
+                {AI_MODES.filter((m) => !m.duo || friend).map((m) => <option key={m.id} value={m.id}>{t(m.label)}</option>)}
+              </select></div>
               <div><div className="small">{t("level")}</div><select value={roastLevel} onChange={(e) => setRoastLevel(Number(e.target.value) as any)}><option value={1}>{t("mild")}</option><option value={2}>{t("normal")}</option><option value={3}>{t("savage")}</option></select></div>
-              <div><div className="small">{t("provider")}</div><select value={provider} onChange={(e) => setProvider(e.target.value as Provider)}><option value="default">Default (DeepSeek)</option><option value="openai_compat">DeepSeek / GPT / Doubao</option><option value="gemini">Gemini</option></select></div>
-              <div style={{ flex: 1, minWidth: 220 }}><div className="small">{t("key")}</div><input value={apiKey} onChange={(e) => setApiKey(e.target.value)} placeholder={t("keyHint")} /></div>
+              <div><div className="small">{t("provider")}</div><select value={provider} onChange={(e) => setProvider(e.target.value)}>
+                <option value="default">{t("defaultProvider")} ({providers.providers.find((p) => p.id === providers.default)?.label || providers.default})</option>
+                {providerOptions.map((p) => <option key={p.id} value={p.id}>{p.label}{p.hosted || !p.acceptsKey ? "" : ` (${t("ownKey")})`}</option>)}
+              </select></div>
+              {providerInfo.acceptsKey && <div style={{ flex: 1, minWidth: 220 }}><div className="small">{t("key")}</div><input value={apiKey} onChange={(e) => setApiKey(e.target.value)} placeholder={providerInfo.hosted ? t("keyHint") : t("keyRequired")} /></div>}
             </div>
             <div className="row" style={{ marginTop: 10 }}>
-              <div style={{ flex: 1, minWidth: 220 }}><div className="small">{t("baseUrl")}</div><input value={baseUrl} onChange={(e) => setBaseUrl(e.target.value)} placeholder="https://api.deepseek.com" /></div>
-              <div style={{ flex: 1, minWidth: 220 }}><div className="small">{t("model")}</div><input value={model} onChange={(e) => setModel(e.target.value)} placeholder="deepseek-chat" /></div>
-              <button className="btn primary" onClick={runAI} disabled={aiBusy}>{aiBusy ? t("running") : t("generate")}</button>
+              {providerInfo.defaultBaseUrl !== null && <div style={{ flex: 1, minWidth: 220 }}><div className="small">{t("baseUrl")}</div><input value={baseUrl} onChange={(e) => setBaseUrl(e.target.value)} placeholder={providerInfo.defaultBaseUrl} /></div>}
+              <div style={{ flex: 1, minWidth: 220 }}><div className="small">{t("model")}</div><input value={model} onChange={(e) => setModel(e.target.value)} placeholder={providerInfo.defaultModel} /></div>
+              <button className="btn primary" onClick={() => runAI()} disabled={aiBusy}>{aiBusy ? t("running") : t("generate")}</button>
+              {aiBusy && <button className="btn" onClick={() => aiAbort.current?.abort()}>{t("cancel")}</button>}
             </div>
+            {providerInfo.acceptsKey && apiKey && <label className="small" style={{ display: 'flex', gap: 8, alignItems: 'center', marginTop: 10 }}>
+              <input type="checkbox" checked={cacheOwnKey} onChange={(e) => setCacheOwnKey(e.target.checked)} /> {t("cacheOwnKey")}
+            </label>}
+            <p className="small" style={{ marginTop: 10 }}>{t(modeInfo.hint)}</p>
             <p className="small" style={{ marginTop: 10 }}>{t("deepseekNote")}</p>
+            {quota && !quota.ai.exempt && quota.ai.remaining !== null && <p className="small" style={{ marginTop: 10 }}>
+              {quota.ai.exhausted === "global" ? t("quotaGlobal") : <>{t("quotaLeft")}: {quota.ai.remaining} / {quota.ai.limit}{quota.chat.remaining !== null && <> · {t("quotaChat")}: {quota.chat.remaining} / {quota.chat.limit}</>}</>}
+              {" "}· {t("quotaReset")} {new Date(quota.ai.reset * 1000).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })} · {t("quotaOwnKey")}
+            </p>}
 
             {aiBusy && <div className="kpi" style={{ marginTop: 10 }}>
               <div className="label">{t("aiProgress")}</div>
@@ -486,7 +1561,54 @@ export default function App() {
               <div className="small" style={{ marginTop: 6 }}>{aiProgress < 30 ? t("loading1") : aiProgress < 60 ? t("loading2") : aiProgress < 85 ? t("loading3") : t("loading4")}</div>
             </div>}
 
-            {aiText && <div className="card" style={{ marginTop: 12 }}><h2>{t("aiOutput")}</h2><pre style={{ whiteSpace: "pre-wrap", margin: 0, fontFamily: "inherit", color: "var(--text)" }}>{aiText}</pre></div>}
+            {(aiText || aiError) && <div className="card" style={{ marginTop: 12 }}><h2>{t("aiOutput")}</h2>
+              {aiResult?.review
+                ? <AiReviewCard
+                    review={aiResult.review}
+                    recommendations={aiRecommendations}
+                    repairs={aiBusy ? [] : aiResult.repairs}
+                    labels={{ recommendations: t("recBoard"), evidence: t("aiEvidence"), seen: t("alreadyWatched"), saved: t("alreadySaved"), replaces: t("aiReplaces"), repaired: t("aiRepaired") }}
+                  />
+                : aiText && <pre style={{ whiteSpace: "pre-wrap", margin: 0, fontFamily: "inherit", color: "var(--text)" }}>{aiText}</pre>}
+              {aiError && <div className="small" style={{ marginTop: 10 }}>{aiError}</div>}
+              {aiDossierReport && <div className="small" style={{ marginTop: 10 }}>
+                {t("dossierDetail")}: {formatInt(aiDossierReport.filmsIncluded)} / {formatInt(aiDossierReport.filmsTotal)}
+                {aiDossierReport.filmsSummarised > 0 && <> · {t("dossierSummarised")}: {formatInt(aiDossierReport.filmsSummarised)}</>}
+                {aiDossierReport.sectionsDropped.length > 0 && <> · {t("dossierDropped")}: {aiDossierReport.sectionsDropped.join(", ")}</>}
+                {" "}· ~{formatInt(aiDossierReport.estimatedTokens)} / {formatInt(aiDossierReport.budgetTokens)} {t("tokens")}
+              </div>}
+              {aiMeta && <div className="small" style={{ marginTop: 10 }}>
+                {aiMeta.cachedAt && <>{t("aiCached")} {new Date(aiMeta.cachedAt).toLocaleString()} · <button className="btn" onClick={() => runAI(true)} disabled={aiBusy}>{t("regenerate")}</button> · </>}
+                {aiMeta.provider && <>{t("aiAnsweredBy")} {aiMeta.provider} · {aiMeta.model}</>}
+                {aiMeta.attempts.some((a) => !a.ok) && <> {aiMeta.provider ? t("aiTried") : t("aiFailed")} {aiMeta.attempts.filter((a) => !a.ok).map((a) => `${a.provider}${a.status ? ` (${a.status})` : ""} ×${a.tries}`).join(", ")}</>}
+              </div>}
+            </div>}
+
+            {aiText && !aiBusy && <div className="card" style={{ marginTop: 12 }}><h2>{t("chatTitle")}</h2>
+              <p className="small">{t("chatHint")}</p>
+              {chat.map((m, i) => (
+                <div key={i} className="kpi" style={{ marginTop: 8, marginLeft: m.role === "user" ? 40 : 0, marginRight: m.role === "user" ? 0 : 40 }}>
+                  <div className="label small">{m.role === "user" ? youName : t("chatFriend")}</div>
+                  <div style={{ whiteSpace: "pre-wrap", lineHeight: 1.6 }}>{m.content || "…"}</div>
+                </div>
+              ))}
+              {chatError && <div className="small" style={{ marginTop: 10 }}>{chatError}</div>}
+              <div className="row" style={{ marginTop: 10 }}>
+                <div style={{ flex: 1, minWidth: 220 }}>
+                  <textarea
+                    rows={2}
+                    value={chatInput}
+                    onChange={(e) => setChatInput(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === "Enter" && !e.shiftKey) { e.preventDefault(); void askChat(); } }}
+                    placeholder={t("chatPlaceholder")}
+                    style={{ width: "100%", resize: "vertical" }}
+                  />
+                </div>
+                <button className="btn primary" onClick={askChat} disabled={chatBusy || !chatInput.trim()}>{chatBusy ? t("running") : t("chatSend")}</button>
+                {chatBusy && <button className="btn" onClick={() => chatAbort.current?.abort()}>{t("cancel")}</button>}
+                {chat.length > 0 && !chatBusy && <button className="btn" onClick={() => { setChat([]); setChatError(null); }}>{t("chatClear")}</button>}
+              </div>
+            </div>}
           </div>
         </>}
       </div>
@@ -0,0 +1,78 @@
+import React from "react";
+import { AiReview, CheckedRecommendation } from "../lib/aiReview";
+
+export type AiReviewLabels = {
+  recommendations: string;
+  evidence: string;
+  seen: string;
+  saved: string;
+  replaces: string;
+  repaired: string;
+};
+
+export default function AiReviewCard({
+  review,
+  recommendations,
+  repairs,
+  labels
+}: {
+  review: AiReview;
+  recommendations: CheckedRecommendation[];
+  repairs: string[];
+  labels: AiReviewLabels;
+}) {
+  return (
+    <div className="card" style={{ marginTop: 12 }}>
+      {review.title && <h2>{review.title}</h2>}
+      {review.highlights.length > 0 && <div className="grid" style={{ marginBottom: 8 }}>
+        {review.highlights.map((h, i) => (
+          <div key={i} className="kpi" style={{ gridColumn: "span 4" }}>
+            <div className="label small">{h.label}</div>
+            <div><b>{h.value}</b></div>
+          </div>
+        ))}
+      </div>}
+      {review.paragraphs.map((p, i) => <p key={i} style={{ lineHeight: 1.6 }}>{p}</p>)}
+
+      {review.sections.map((sec, i) => (
+        <div key={i}>
+          <div className="hr" />
+          {sec.heading && <div className="label small">{sec.heading}</div>}
+          <ul style={{ margin: "8px 0 0", paddingLeft: 18 }}>
+            {sec.items.map((item, j) => <li key={j} style={{ marginBottom: 4 }}>{item}</li>)}
+          </ul>
+        </div>
+      ))}
+
+      {recommendations.length > 0 && <>
+        <div className="hr" />
+        <div className="label small">{labels.recommendations}</div>
+        <div className="grid" style={{ marginTop: 8 }}>
+          {recommendations.map((r, i) => (
+            <div key={`${r.film}-${i}`} className="kpi" style={{ gridColumn: "span 6", opacity: r.seen ? 0.6 : 1 }}>
+              <div><b>{r.film}</b>{r.year !== null && <span className="small"> ({r.year})</span>}</div>
+              {r.reason && <div className="small">{r.reason}</div>}
+              {(r.seen || r.saved) && <div>
+                {r.seen && <span className="badge">{labels.seen}{r.seen.rating !== null ? ` · ★${r.seen.rating}` : ""}</span>}
+                {r.saved && <span className="badge">{labels.saved}</span>}
+              </div>}
+              {r.replaces && <div className="small">{labels.replaces}: {r.replaces}</div>}
+            </div>
+          ))}
+        </div>
+      </>}
+
+      {review.evidence.length > 0 && <>
+        <div className="hr" />
+        <div className="label small">{labels.evidence}</div>
+        <ul style={{ margin: "8px 0 0", paddingLeft: 18 }}>
+          {review.evidence.map((e, i) => (
+            <li key={i} style={{ marginBottom: 4 }}>{e.claim}{e.data && <span className="small"> — {e.data}</span>}</li>
+          ))}
+        </ul>
+      </>}
+
+      {repairs.length > 0 && <div className="small" style={{ marginTop: 10 }}>{labels.repaired}: {repairs.join(", ")}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+import React from "react";
+import { clamp, formatPct } from "../lib/utils";
+
+export function CompareBars({
+  title,
+  items,
+  legend,
+  emptyText = "No data."
+}: {
+  title: string;
+  items: Array<{ label: string; a: number; b: number }>;
+  legend: [string, string];
+  emptyText?: string;
+}) {
+  const max = Math.max(0.0001, ...items.flatMap(i => [i.a, i.b]));
+  return (
+    <div className="card">
+      <h2>{title}</h2>
+      {items.length === 0 ? (
+        <p>{emptyText}</p>
+      ) : (
+        <div>
+          <div className="row small" style={{ marginBottom: 6 }}>
+            <span><span className="swatch" /> {legend[0]}</span>
+            <span><span className="swatch alt" /> {legend[1]}</span>
+          </div>
+          {items.map((it) => (
+            <div key={it.label} className="barRow" style={{ gridTemplateColumns: "70px 1fr 90px" }}>
+              <div className="small">{it.label}</div>
+              <div style={{ display: "grid", gap: 3 }}>
+                <div className="bar"><div style={{ width: `${clamp((it.a / max) * 100, 0, 100)}%` }} /></div>
+                <div className="bar alt"><div style={{ width: `${clamp((it.b / max) * 100, 0, 100)}%` }} /></div>
+              </div>
+              <div className="small" style={{ textAlign: "right" }}>{formatPct(it.a)} / {formatPct(it.b)}</div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
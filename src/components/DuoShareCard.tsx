@@ -0,0 +1,66 @@
+import React from "react";
+import { Comparison } from "../lib/compare";
+import { StatPack } from "../lib/stats";
+import { formatInt, formatPct, round1 } from "../lib/utils";
+
+export type DuoShareCardLabels = {
+  compatibility: string;
+  watched: string;
+  meanRating: string;
+  shared: string;
+  agreement: string;
+  biggestFight: string;
+  badge: string;
+  na: string;
+};
+
+function Side({ name, stats, labels }: { name: string; stats: StatPack; labels: DuoShareCardLabels }) {
+  return (
+    <div className="shareTile" style={{ gridColumn: "span 6" }}>
+      <h3>{name}</h3>
+      <div className="small">{labels.badge}: {stats.fun.badge}</div>
+      <div className="row" style={{ marginTop: 8 }}>
+        <div><div className="t">{labels.watched}</div><div className="v">{formatInt(stats.totals.filmsWatched)}</div></div>
+        <div><div className="t">{labels.meanRating}</div><div className="v">{stats.ratings.mean === null ? labels.na : round1(stats.ratings.mean)}</div></div>
+      </div>
+    </div>
+  );
+}
+
+export default function DuoShareCard({
+  a,
+  b,
+  comparison,
+  labels
+}: {
+  a: { name: string; stats: StatPack };
+  b: { name: string; stats: StatPack };
+  comparison: Comparison;
+  labels: DuoShareCardLabels;
+}) {
+  const fight = comparison.disagreements[0];
+  return (
+    <div className="shareCard" id="duoShareCard">
+      <div className="row" style={{ justifyContent: "space-between" }}>
+        <h3>{a.name} × {b.name}</h3>
+        <div className="badge">{labels.compatibility}: {comparison.compatibility}/100</div>
+      </div>
+      <div className="shareGrid">
+        <Side name={a.name} stats={a.stats} labels={labels} />
+        <Side name={b.name} stats={b.stats} labels={labels} />
+        <div className="shareTile" style={{ gridColumn: "span 4" }}>
+          <div className="t">{labels.shared}</div>
+          <div className="v">{formatInt(comparison.overlap.shared)} ({formatPct(comparison.overlap.jaccard)})</div>
+        </div>
+        <div className="shareTile" style={{ gridColumn: "span 4" }}>
+          <div className="t">{labels.agreement}</div>
+          <div className="v">{comparison.agreement.meanAbsDiff === null ? labels.na : `±${round1(comparison.agreement.meanAbsDiff)}★`}</div>
+        </div>
+        <div className="shareTile" style={{ gridColumn: "span 4" }}>
+          <div className="t">{labels.biggestFight}</div>
+          <div className="v" style={{ fontSize: 14, lineHeight: 1.35, marginTop: 8 }}>{fight ? `${fight.name}: ${fight.a} vs ${fight.b}` : labels.na}</div>
+        </div>
+      </div>
+    </div>
+  );
+}
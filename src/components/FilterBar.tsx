@@ -0,0 +1,81 @@
+import React from "react";
+import { EMPTY_FILTER, FilmFilter, isFilterActive } from "../lib/filters";
+
+export type FilterBarLabels = {
+  title: string;
+  from: string;
+  to: string;
+  decade: string;
+  tag: string;
+  ratingMin: string;
+  ratingMax: string;
+  any: string;
+  rewatchOnly: string;
+  reviewedOnly: string;
+  clear: string;
+  showing: string;
+};
+
+const RATING_STEPS = [0.5, 1, 1.5, 2, 2.5, 3, 3.5, 4, 4.5, 5];
+
+export default function FilterBar({
+  value,
+  onChange,
+  decades,
+  tags,
+  shown,
+  total,
+  labels
+}: {
+  value: FilmFilter;
+  onChange: (next: FilmFilter) => void;
+  decades: string[];
+  tags: string[];
+  shown: number;
+  total: number;
+  labels: FilterBarLabels;
+}) {
+  const set = (patch: Partial<FilmFilter>) => onChange({ ...value, ...patch });
+  const ratingSelect = (v: number | null, onPick: (n: number | null) => void) => (
+    <select value={v ?? ""} onChange={(e) => onPick(e.target.value ? Number(e.target.value) : null)}>
+      <option value="">{labels.any}</option>
+      {RATING_STEPS.map((r) => <option key={r} value={r}>{r}</option>)}
+    </select>
+  );
+
+  return (
+    <div className="card">
+      <h2>{labels.title}</h2>
+      <div className="row">
+        <div><div className="small">{labels.from}</div><input type="date" value={value.from || ""} onChange={(e) => set({ from: e.target.value || null })} /></div>
+        <div><div className="small">{labels.to}</div><input type="date" value={value.to || ""} onChange={(e) => set({ to: e.target.value || null })} /></div>
+        <div>
+          <div className="small">{labels.decade}</div>
+          <select value={value.decades[0] || ""} onChange={(e) => set({ decades: e.target.value ? [e.target.value] : [] })}>
+            <option value="">{labels.any}</option>
+            {decades.map((d) => <option key={d} value={d}>{d}</option>)}
+          </select>
+        </div>
+        <div><div className="small">{labels.ratingMin}</div>{ratingSelect(value.ratingMin, (n) => set({ ratingMin: n }))}</div>
+        <div><div className="small">{labels.ratingMax}</div>{ratingSelect(value.ratingMax, (n) => set({ ratingMax: n }))}</div>
+        {tags.length > 0 && <div>
+          <div className="small">{labels.tag}</div>
+          <select value={value.tags[0] || ""} onChange={(e) => set({ tags: e.target.value ? [e.target.value] : [] })}>
+            <option value="">{labels.any}</option>
+            {tags.map((t) => <option key={t} value={t}>{t}</option>)}
+          </select>
+        </div>}
+      </div>
+      <div className="row" style={{ marginTop: 10 }}>
+        <label className="small" style={{ display: "flex", gap: 6, alignItems: "center" }}>
+          <input type="checkbox" checked={value.rewatchOnly} onChange={(e) => set({ rewatchOnly: e.target.checked })} /> {labels.rewatchOnly}
+        </label>
+        <label className="small" style={{ display: "flex", gap: 6, alignItems: "center" }}>
+          <input type="checkbox" checked={value.reviewedOnly} onChange={(e) => set({ reviewedOnly: e.target.checked })} /> {labels.reviewedOnly}
+        </label>
+        <span className="badge">{labels.showing}: {shown} / {total}</span>
+        {isFilterActive(value) && <button className="btn" onClick={() => onChange(EMPTY_FILTER)}>{labels.clear}</button>}
+      </div>
+    </div>
+  );
+}
@@ -13,6 +13,7 @@ export type ShareCardLabels = {
   commitment: string;
   topWords: string;
   oneLine: string;
+  filter: string;
   na: string;
   titleSuffix: string;
 };
@@ -20,11 +21,13 @@ export type ShareCardLabels = {
 export default function ShareCard({
   stats,
   label,
-  labels
+  labels,
+  filterText
 }: {
   stats: StatPack;
   label: string;
   labels: ShareCardLabels;
+  filterText?: string;
 }) {
   const mean = stats.ratings.mean === null ? labels.na : round3(stats.ratings.mean);
   const med = stats.ratings.median === null ? labels.na : round1(stats.ratings.median);
@@ -35,6 +38,7 @@ export default function ShareCard({
         <div>
           <h3>{label || " "} {labels.titleSuffix}</h3>
           <div className="small">{labels.generated} {new Date(stats.generatedAt).toLocaleString("en-GB")}</div>
+          {filterText && <div className="small">{labels.filter}: {filterText}</div>}
         </div>
         <div className="badge">{labels.badge}: {stats.fun.badge}</div>
       </div>
@@ -0,0 +1,210 @@
+import { foldTitle } from "./identity";
+import { FilmRecord } from "./letterboxd";
+
+export type AiRecommendation = {
+  film: string;
+  year: number | null;
+  reason: string;
+  // Set by server-side grounding, never taken from model output.
+  alreadySeen?: boolean;
+  onWatchlist?: boolean;
+  replaces?: string;
+};
+export type AiEvidence = { claim: string; data: string };
+export type AiHighlight = { label: string; value: string };
+export type AiSection = { heading: string; items: string[] };
+
+export type AiReview = {
+  title: string;
+  highlights: AiHighlight[];
+  paragraphs: string[];
+  sections: AiSection[];
+  recommendations: AiRecommendation[];
+  evidence: AiEvidence[];
+};
+
+/** What a mode asks for; zero or missing parts are left out of the requested shape. */
+export type ReviewShape = {
+  paragraphs: number;
+  recommendations: number;
+  highlights?: string;
+  sections?: string;
+};
+
+export type ParsedReview = { review: AiReview | null; repairs: string[] };
+
+export type CheckedRecommendation = AiRecommendation & { seen: FilmRecord | null; saved: boolean };
+
+/** Compact [title, year] pair the client sends so the server can ground recommendations. */
+export type TitleRef = [string, number | null];
+
+export type TitleIndex = Map<string, TitleRef[]>;
+
+/** Shape the model is asked for; kept next to the parser that enforces it. */
+export function reviewJsonShape(shape: ReviewShape): string {
+  const parts = [`"title": string`];
+  if (shape.highlights) parts.push(`"highlights": [{"label": string, "value": string}] (${shape.highlights})`);
+  parts.push(`"paragraphs": [string] (exactly ${shape.paragraphs})`);
+  if (shape.sections) parts.push(`"sections": [{"heading": string, "items": [string]}] (${shape.sections})`);
+  if (shape.recommendations) parts.push(`"recommendations": [{"film": string, "year": number, "reason": string}] (exactly ${shape.recommendations})`);
+  parts.push(`"evidence": [{"claim": string, "data": string}] (3 to 6 items; "data" quotes the dossier field and value the claim relies on)`);
+  return `{${parts.join(", ")}}`;
+}
+
+function str(v: unknown): string {
+  return typeof v === "string" ? v.trim() : typeof v === "number" ? String(v) : "";
+}
+
+function yearOf(v: unknown): number | null {
+  const n = typeof v === "number" ? v : parseInt(str(v), 10);
+  return Number.isFinite(n) && n >= 1870 && n <= 2100 ? n : null;
+}
+
+function stripFences(raw: string): string {
+  return raw.replace(/^\s*```(?:json)?\s*/i, "").replace(/\s*```\s*$/, "");
+}
+
+/** Closes open strings, arrays and objects so a truncated answer still parses. */
+function closeJson(s: string): string {
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+  for (const ch of s) {
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === "\\") escaped = true;
+      else if (ch === "\"") inString = false;
+      continue;
+    }
+    if (ch === "\"") inString = true;
+    else if (ch === "{") stack.push("}");
+    else if (ch === "[") stack.push("]");
+    else if (ch === "}" || ch === "]") stack.pop();
+  }
+  let out = inString ? `${s}"` : s;
+  out = out.replace(/[,:\s]+$/, "");
+  return out + stack.reverse().join("");
+}
+
+function tryParse(s: string): unknown {
+  try {
+    return JSON.parse(s);
+  } catch {
+    return undefined;
+  }
+}
+
+/** Parses the JSON object, repairing trailing commas and truncation; cuts back to earlier commas as a last resort. */
+function parseLenient(body: string, repairs: string[]): unknown {
+  const direct = tryParse(body);
+  if (direct !== undefined) return direct;
+
+  const noTrailing = body.replace(/,\s*([}\]])/g, "$1");
+  let cut = noTrailing;
+  for (let i = 0; i < 50 && cut; i++) {
+    const parsed = tryParse(closeJson(cut));
+    if (parsed !== undefined) {
+      repairs.push(i === 0 && noTrailing !== body ? "trailing commas" : "truncated JSON");
+      return parsed;
+    }
+    const comma = cut.lastIndexOf(",");
+    if (comma < 0) break;
+    cut = cut.slice(0, comma);
+  }
+  return undefined;
+}
+
+function coerce(obj: any, repairs: string[]): AiReview | null {
+  if (!obj || typeof obj !== "object") return null;
+  const title = str(obj.title);
+  let paragraphs: string[] = [];
+  if (Array.isArray(obj.paragraphs)) paragraphs = obj.paragraphs.map(str).filter(Boolean);
+  else if (typeof obj.paragraphs === "string") {
+    paragraphs = obj.paragraphs.split(/\n\s*\n/).map((p: string) => p.trim()).filter(Boolean);
+    repairs.push("paragraphs as string");
+  }
+  const recommendations = (Array.isArray(obj.recommendations) ? obj.recommendations : [])
+    .map((r: any) => (typeof r === "string" ? { film: r } : r || {}))
+    .map((r: any) => ({ film: str(r.film ?? r.title ?? r.name), year: yearOf(r.year), reason: str(r.reason ?? r.why) }))
+    .filter((r: AiRecommendation) => r.film);
+  const highlights = (Array.isArray(obj.highlights) ? obj.highlights : [])
+    .map((h: any) => ({ label: str(h?.label), value: str(h?.value) }))
+    .filter((h: AiHighlight) => h.label && h.value);
+  const sections = (Array.isArray(obj.sections) ? obj.sections : [])
+    .map((x: any) => ({ heading: str(x?.heading), items: (Array.isArray(x?.items) ? x.items : []).map(str).filter(Boolean) }))
+    .filter((x: AiSection) => x.heading || x.items.length);
+  const evidence = (Array.isArray(obj.evidence) ? obj.evidence : [])
+    .map((e: any) => (typeof e === "string" ? { claim: e, data: "" } : { claim: str(e?.claim), data: str(e?.data ?? e?.source) }))
+    .filter((e: AiEvidence) => e.claim);
+  if (!title && !paragraphs.length && !recommendations.length && !sections.length) return null;
+  if (!title) repairs.push("missing title");
+  return { title, highlights, paragraphs, sections, recommendations, evidence };
+}
+
+const BULLET = /^\s*(?:[-*•]|\d+[.)])\s+/;
+
+/** Recovers the same structure from a plain-text answer (title line, paragraphs, bullet list). */
+function fromFreeText(raw: string): AiReview | null {
+  const lines = raw.split("\n").map(l => l.trim());
+  const title = lines.find(Boolean) || "";
+  if (!title) return null;
+  const recommendations = lines.filter(l => BULLET.test(l)).map(l => {
+    const m = l.replace(BULLET, "").match(/^(.+?)(?:\s*\((\d{4})\))?\s*(?:[-–—:]\s*(.*))?$/);
+    return { film: (m?.[1] || "").replace(/[*_"«»]/g, "").trim(), year: yearOf(m?.[2]), reason: (m?.[3] || "").trim() };
+  }).filter(r => r.film);
+  const body = raw.slice(raw.indexOf(title) + title.length).split("\n").filter(l => !BULLET.test(l)).join("\n");
+  const paragraphs = body.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean);
+  return { title: title.replace(/^#+\s*/, ""), highlights: [], paragraphs, sections: [], recommendations, evidence: [] };
+}
+
+/** Also used on partial output while it streams, so it must never throw. */
+export function parseReview(raw: string): ParsedReview {
+  const repairs: string[] = [];
+  const text = stripFences(raw);
+  const start = text.indexOf("{");
+  if (start < 0) {
+    const review = fromFreeText(text);
+    if (review) repairs.push("free text");
+    return { review, repairs };
+  }
+  if (start > 0 && text.slice(0, start).trim()) repairs.push("text before JSON");
+  const end = text.lastIndexOf("}");
+  const body = end > start && tryParse(text.slice(start, end + 1)) !== undefined ? text.slice(start, end + 1) : text.slice(start);
+  const review = coerce(parseLenient(body, repairs), repairs);
+  return { review, repairs };
+}
+
+/** Exact year first, then a one-year slip between release-year sources; without a year any same-title film counts. */
+function matchYear<T>(candidates: T[], yearOf: (c: T) => number | null, year: number | null): T | null {
+  if (year === null) return candidates[0] || null;
+  return candidates.find(c => yearOf(c) === year)
+    || candidates.find(c => { const y = yearOf(c); return y !== null && Math.abs(y - year) <= 1; })
+    || null;
+}
+
+function groupByTitle<T>(items: T[], nameOf: (item: T) => string): Map<string, T[]> {
+  const map = new Map<string, T[]>();
+  for (const item of items) {
+    const k = foldTitle(nameOf(item));
+    map.set(k, [...(map.get(k) || []), item]);
+  }
+  return map;
+}
+
+export function indexTitles(refs: TitleRef[]): TitleIndex {
+  return groupByTitle(refs, r => r[0]);
+}
+
+export function findTitle(index: TitleIndex, film: string, year: number | null): TitleRef | null {
+  return matchYear(index.get(foldTitle(film)) || [], r => r[1], year);
+}
+
+export function crossCheckRecommendations(recs: AiRecommendation[], films: FilmRecord[]): CheckedRecommendation[] {
+  const watched = groupByTitle(films.filter(f => f.watched), f => f.name);
+  const saved = groupByTitle(films.filter(f => f.watchlisted && !f.watched), f => f.name);
+  return recs.map(r => ({
+    ...r,
+    seen: matchYear(watched.get(foldTitle(r.film)) || [], f => f.year, r.year),
+    saved: !!r.onWatchlist || !!matchYear(saved.get(foldTitle(r.film)) || [], f => f.year, r.year)
+  }));
+}
@@ -0,0 +1,28 @@
+import { estimateTokens } from "./dossier";
+
+export type ChatMessage = { role: "user" | "assistant"; content: string };
+
+// Enforced on the server as well; the client trims first so it never sends what would be cut.
+export const CHAT_MAX_MESSAGES = 24;
+export const CHAT_MAX_CHARS = 4000;
+
+/** Keeps only well-formed turns, capped in length and number, opening with a user turn and ending with the user's question. */
+export function readChatMessages(raw: unknown): ChatMessage[] {
+  const messages = (Array.isArray(raw) ? raw : [])
+    .filter((m): m is ChatMessage => !!m && (m.role === "user" || m.role === "assistant") && typeof m.content === "string" && !!m.content.trim())
+    .map((m) => ({ role: m.role, content: m.content.trim().slice(0, CHAT_MAX_CHARS) }));
+  while (messages.length && messages[messages.length - 1].role !== "user") messages.pop();
+  const kept = messages.slice(-CHAT_MAX_MESSAGES);
+  while (kept.length && kept[0].role !== "user") kept.shift();
+  return kept;
+}
+
+/** Drops the oldest turns until the history fits the token budget; the latest question always stays. */
+export function trimHistory(messages: ChatMessage[], budgetTokens: number): ChatMessage[] {
+  const kept = messages.slice(-CHAT_MAX_MESSAGES);
+  let used = kept.reduce((sum, m) => sum + estimateTokens(m.content), 0);
+  while (kept.length > 1 && used > budgetTokens) used -= estimateTokens(kept.shift()!.content);
+  // Providers expect the conversation to open with a user turn.
+  while (kept.length > 1 && kept[0].role !== "user") kept.shift();
+  return kept;
+}
@@ -0,0 +1,98 @@
+import { foldTitle } from "./identity";
+import { FilmRecord } from "./letterboxd";
+import { StatPack } from "./stats";
+import { clamp, mean, pearson } from "./utils";
+
+export type Comparison = {
+  overlap: { shared: number; onlyA: number; onlyB: number; jaccard: number };
+  agreement: { sharedRated: number; correlation: number | null; meanAbsDiff: number | null };
+  disagreements: Array<{ name: string; year: number | null; a: number; b: number; diff: number }>;
+  agreements: Array<{ name: string; year: number | null; rating: number }>;
+  decades: Array<{ decade: string; a: number; b: number }>;
+  tags: Array<{ tag: string; a: number; b: number }>;
+  compatibility: number; // 0..100
+};
+
+function titleKey(f: FilmRecord): string {
+  return `${foldTitle(f.name)}::${f.year ?? "unknown"}`;
+}
+
+/**
+ * Pairs the watched films of two exports. Film-level URI keys are global on
+ * Letterboxd, so they match directly; title keys are the fallback.
+ */
+function pairFilms(a: FilmRecord[], b: FilmRecord[]): Array<[FilmRecord, FilmRecord]> {
+  const byKey = new Map(b.map(f => [f.key, f]));
+  const byTitle = new Map(b.map(f => [titleKey(f), f]));
+  const pairs: Array<[FilmRecord, FilmRecord]> = [];
+  const used = new Set<FilmRecord>();
+  for (const fa of a) {
+    const fb = byKey.get(fa.key) || byTitle.get(titleKey(fa));
+    if (!fb || used.has(fb)) continue;
+    used.add(fb);
+    pairs.push([fa, fb]);
+  }
+  return pairs;
+}
+
+function shares(buckets: Array<{ decade: string; count: number }>): Map<string, number> {
+  const total = buckets.reduce((n, d) => n + d.count, 0);
+  return new Map(buckets.map(d => [d.decade, total ? d.count / total : 0]));
+}
+
+export function compareExports(aFilms: FilmRecord[], aStats: StatPack, bFilms: FilmRecord[], bStats: StatPack): Comparison {
+  const a = aFilms.filter(f => f.watched);
+  const b = bFilms.filter(f => f.watched);
+  const pairs = pairFilms(a, b);
+  const union = a.length + b.length - pairs.length;
+  const jaccard = union ? pairs.length / union : 0;
+
+  const rated = pairs.filter(([fa, fb]) => fa.rating !== null && fb.rating !== null);
+  const xs = rated.map(([fa]) => fa.rating!);
+  const ys = rated.map(([, fb]) => fb.rating!);
+  const meanAbsDiff = mean(rated.map(([fa, fb]) => Math.abs(fa.rating! - fb.rating!)));
+
+  const disagreements = rated
+    .map(([fa, fb]) => ({ name: fa.name, year: fa.year, a: fa.rating!, b: fb.rating!, diff: fa.rating! - fb.rating! }))
+    .filter(d => d.diff !== 0)
+    .sort((x, y) => Math.abs(y.diff) - Math.abs(x.diff) || x.name.localeCompare(y.name))
+    .slice(0, 10);
+
+  const agreements = rated
+    .filter(([fa, fb]) => fa.rating === fb.rating && fa.rating! >= 4)
+    .map(([fa]) => ({ name: fa.name, year: fa.year, rating: fa.rating! }))
+    .sort((x, y) => y.rating - x.rating || x.name.localeCompare(y.name))
+    .slice(0, 10);
+
+  const da = shares(aStats.releaseYears.decadeBuckets);
+  const db = shares(bStats.releaseYears.decadeBuckets);
+  const decadeKeys = Array.from(new Set([...da.keys(), ...db.keys()])).sort();
+  const decades = decadeKeys.map(decade => ({ decade, a: da.get(decade) || 0, b: db.get(decade) || 0 }));
+  const decadeSimilarity = 1 - decades.reduce((n, d) => n + Math.abs(d.a - d.b), 0) / 2;
+
+  const ta = aStats.tags.taggedEntries || 1;
+  const tb = bStats.tags.taggedEntries || 1;
+  const tagA = new Map(aStats.tags.frequency.map(t => [t.tag, t.count / ta]));
+  const tagB = new Map(bStats.tags.frequency.map(t => [t.tag, t.count / tb]));
+  const tags = Array.from(new Set([...tagA.keys(), ...tagB.keys()]))
+    .map(tag => ({ tag, a: tagA.get(tag) || 0, b: tagB.get(tag) || 0 }))
+    .sort((x, y) => Math.abs(y.a - y.b) - Math.abs(x.a - x.b))
+    .slice(0, 10);
+
+  // Weighted blend: rating agreement matters most, then shared history (saturating
+  // at one third overlap), then era taste.
+  const parts: Array<[number, number]> = [[clamp(jaccard * 3, 0, 1), 0.3], [decadeSimilarity, 0.2]];
+  if (meanAbsDiff !== null) parts.push([1 - clamp(meanAbsDiff / 4.5, 0, 1), 0.5]);
+  const weight = parts.reduce((n, [, w]) => n + w, 0);
+  const compatibility = Math.round((parts.reduce((n, [v, w]) => n + v * w, 0) / weight) * 100);
+
+  return {
+    overlap: { shared: pairs.length, onlyA: a.length - pairs.length, onlyB: b.length - pairs.length, jaccard },
+    agreement: { sharedRated: rated.length, correlation: pearson(xs, ys), meanAbsDiff },
+    disagreements,
+    agreements,
+    decades,
+    tags,
+    compatibility
+  };
+}
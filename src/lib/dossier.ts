@@ -0,0 +1,220 @@
+import { FilmRecord, MergeAnomaly } from "./letterboxd";
+import { StatPack } from "./stats";
+import { YearReview } from "./yearReview";
+import { mean, round1 } from "./utils";
+
+export type DossierFilm = {
+  n: string;
+  y: number | null;
+  r: number | null;
+  w: string[];
+  rw: number;
+  rv: string[];
+  l?: true;
+  h?: number[]; // rating history, only when it moved
+};
+
+export type DossierReport = {
+  budgetTokens: number;
+  estimatedTokens: number;
+  filmsTotal: number;
+  filmsIncluded: number;
+  filmsSummarised: number;
+  reviewsTrimmed: number;
+  sectionsDropped: string[];
+};
+
+export type DossierOptions = {
+  anomaly: MergeAnomaly | null;
+  yearReview: YearReview | null;
+  filter: string | null;
+  budgetTokens: number;
+};
+
+// Context windows by provider, then by model name; anything unknown gets a conservative default.
+const PROVIDER_WINDOWS: Record<string, number> = { workers_ai: 8_000, ollama: 8_000 };
+const MODEL_WINDOWS: Array<[RegExp, number]> = [
+  [/gemini/i, 1_000_000],
+  [/claude/i, 200_000],
+  [/gpt-4o|gpt-4\.1|gpt-5|\bo[134]\b/i, 128_000],
+  [/llama-?3\.[1-3]/i, 128_000],
+  [/deepseek/i, 64_000],
+  [/doubao/i, 32_000]
+];
+const DEFAULT_WINDOW = 32_000;
+// The dossier gets a share of the window (the rest is prompt and answer), capped to keep requests cheap.
+const DOSSIER_SHARE = 0.4;
+const MAX_BUDGET = 30_000;
+const MIN_BUDGET = 2_000;
+const REVIEW_CHARS = 280;
+// Optional base sections, dropped in this order when the stats alone outgrow half the budget.
+const DROPPABLE = ["topWords", "yearReview", "tags", "rewatch", "watchlist"] as const;
+
+export function dossierBudget(provider: string, model: string): number {
+  const window = PROVIDER_WINDOWS[provider] || MODEL_WINDOWS.find(([re]) => re.test(model))?.[1] || DEFAULT_WINDOW;
+  return Math.max(MIN_BUDGET, Math.min(MAX_BUDGET, Math.floor(window * DOSSIER_SHARE)));
+}
+
+/** About four characters per token for Latin text; CJK and other non-ASCII text runs closer to one per character. */
+export function estimateTokens(text: string): number {
+  let ascii = 0;
+  let other = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text.charCodeAt(i) < 128) ascii++;
+    else other++;
+  }
+  return Math.ceil(ascii / 4 + other / 1.5);
+}
+
+function jsonTokens(v: unknown): number {
+  return estimateTokens(JSON.stringify(v));
+}
+
+function lastWatched(f: FilmRecord): string {
+  return f.watchedDates[f.watchedDates.length - 1] || "0000-00-00";
+}
+
+/**
+ * How much a film tells the model about this viewer: extreme or off-average
+ * ratings, rewatches, written reviews, recent watches and ratings that moved.
+ */
+function informativeness(f: FilmRecord, meanRating: number | null, latest: string): number {
+  let score = 0;
+  if (f.rating !== null) {
+    if (f.rating <= 1.5 || f.rating >= 4.5) score += 3;
+    if (meanRating !== null) score += Math.abs(f.rating - meanRating) * 1.5;
+  }
+  score += Math.min(f.rewatchCount, 3) * 1.5;
+  if (f.reviewTextSamples.length) score += 2;
+  const last = lastWatched(f);
+  if (last !== "0000-00-00" && latest.localeCompare(last) >= 0) {
+    const days = (Date.parse(latest) - Date.parse(last)) / 86400000;
+    score += Math.max(0, 2 - days / 90);
+  }
+  const history = f.ratingHistory.map(p => p.rating);
+  if (history.length > 1 && Math.max(...history) - Math.min(...history) >= 1.5) score += 2;
+  if (f.liked && f.rating !== null && f.rating <= 2.5) score += 2;
+  return score;
+}
+
+function toEntry(f: FilmRecord): { entry: DossierFilm; trimmed: boolean } {
+  const review = f.reviewTextSamples[0] || "";
+  const history = Array.from(new Set(f.ratingHistory.map(p => p.rating)));
+  return {
+    entry: {
+      n: f.name,
+      y: f.year,
+      r: f.rating,
+      w: f.watchedDates,
+      rw: f.rewatchCount,
+      rv: review ? [review.length > REVIEW_CHARS ? `${review.slice(0, REVIEW_CHARS)}…` : review] : [],
+      ...(f.liked ? { l: true as const } : {}),
+      ...(history.length > 1 ? { h: f.ratingHistory.map(p => p.rating) } : {})
+    },
+    trimmed: review.length > REVIEW_CHARS
+  };
+}
+
+/** Statistical stand-in for the films that did not fit. */
+function summariseRest(rest: FilmRecord[]) {
+  const rated = rest.map(f => f.rating).filter((r): r is number => r !== null);
+  const histogram = new Map<number, number>();
+  for (const r of rated) histogram.set(r, (histogram.get(r) || 0) + 1);
+  const decades = new Map<string, number>();
+  for (const f of rest) if (f.year) decades.set(`${Math.floor(f.year / 10) * 10}s`, (decades.get(`${Math.floor(f.year / 10) * 10}s`) || 0) + 1);
+  const dates = rest.map(lastWatched).filter(d => d !== "0000-00-00").sort();
+  const m = mean(rated);
+  return {
+    count: rest.length,
+    rated: rated.length,
+    meanRating: m === null ? null : round1(m),
+    ratingHistogram: Array.from(histogram.entries()).sort((a, b) => a[0] - b[0]).map(([rating, count]) => ({ rating, count })),
+    decades: Array.from(decades.entries()).sort().map(([decade, count]) => ({ decade, count })),
+    rewatched: rest.filter(f => f.rewatchCount > 0).length,
+    reviewed: rest.filter(f => f.reviewTextSamples.length).length,
+    liked: rest.filter(f => f.liked).length,
+    lastWatchedRange: dates.length ? [dates[0], dates[dates.length - 1]] : null
+  };
+}
+
+/** Watched, rated or reviewed: a film the user has seen rather than one they only saved or listed. */
+export function isLogged(f: FilmRecord): boolean {
+  return f.watched || f.rating !== null || f.reviewCount > 0;
+}
+
+export function compileDossier(films: FilmRecord[], stats: StatPack, opts: DossierOptions) {
+  const budget = opts.budgetTokens;
+  // Only films the user logged; watchlist and list-only films are summarised through stats.watchlist instead.
+  const pool = films.filter(isLogged);
+
+  // byDay can run to thousands of rows; byMonth carries the same shape.
+  const { byDay: _byDay, ...activity } = stats.activity;
+  const base: Record<string, unknown> = {
+    totals: stats.totals,
+    rating: stats.ratings,
+    activity,
+    anomaly: opts.anomaly,
+    filter: opts.filter,
+    release: stats.releaseYears,
+    topWords: stats.text.topWords,
+    tags: stats.tags,
+    rewatch: { ...stats.rewatch, rows: undefined },
+    watchlist: stats.watchlist,
+    yearReview: opts.yearReview ? {
+      year: opts.yearReview.year,
+      totals: opts.yearReview.totals,
+      previous: opts.yearReview.previous,
+      bestFirstWatches: opts.yearReview.bestFirstWatches,
+      mostRewatched: opts.yearReview.mostRewatched,
+      releaseSplit: opts.yearReview.releaseSplit
+    } : null
+  };
+  const sectionsDropped: string[] = [];
+  for (const key of DROPPABLE) {
+    if (jsonTokens(base) <= budget / 2) break;
+    delete base[key];
+    sectionsDropped.push(key);
+  }
+
+  const latest = pool.map(lastWatched).sort().pop() || "0000-00-00";
+  const ranked = pool
+    .map(f => ({ f, score: informativeness(f, stats.ratings.mean, latest) }))
+    .sort((a, b) => b.score - a.score || lastWatched(b.f).localeCompare(lastWatched(a.f)));
+
+  // The truncation note and rest summary are small; reserve room for them up front.
+  let used = jsonTokens(base) + 400;
+  const chosen: Array<{ f: FilmRecord; entry: DossierFilm }> = [];
+  const rest: FilmRecord[] = [];
+  let reviewsTrimmed = 0;
+  for (const { f } of ranked) {
+    const { entry, trimmed } = toEntry(f);
+    const cost = jsonTokens(entry) + 1;
+    if (used + cost > budget) {
+      rest.push(f);
+      continue;
+    }
+    used += cost;
+    if (trimmed) reviewsTrimmed++;
+    chosen.push({ f, entry });
+  }
+  chosen.sort((a, b) => lastWatched(b.f).localeCompare(lastWatched(a.f)));
+
+  const report: DossierReport = {
+    budgetTokens: budget,
+    estimatedTokens: 0,
+    filmsTotal: pool.length,
+    filmsIncluded: chosen.length,
+    filmsSummarised: rest.length,
+    reviewsTrimmed,
+    sectionsDropped
+  };
+  const dossier = {
+    ...base,
+    // Tells the model the film list is a sample, so it does not read absence as taste.
+    truncation: rest.length || sectionsDropped.length ? report : null,
+    films: chosen.map(c => c.entry),
+    otherFilms: rest.length ? summariseRest(rest) : null
+  };
+  report.estimatedTokens = jsonTokens(dossier);
+  return { dossier, report };
+}
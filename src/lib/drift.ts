@@ -0,0 +1,63 @@
+import { FilmRecord } from "./letterboxd";
+import { mean } from "./utils";
+
+export type ChangedMind = {
+  name: string;
+  year: number | null;
+  diaryRatings: number[];
+  current: number | null;
+  delta: number; // latest rating minus earliest
+};
+
+export type RatingDrift = {
+  filmsWithDiaryRatings: number;
+  filmsWithHistory: number;
+  disagreeing: number; // current rating differs from the latest diary rating
+  raised: number;
+  lowered: number;
+  meanDelta: number | null;
+  meanAbsDelta: number | null;
+  changedCount: number; // all films whose rating history holds more than one value
+  changedMind: ChangedMind[]; // the 20 largest changes
+};
+
+export function computeRatingDrift(films: FilmRecord[]): RatingDrift {
+  const withDiary = films.filter(f => f.ratingHistory.some(p => p.source === "diary"));
+  const withHistory = films.filter(f => f.ratingHistory.length >= 2);
+
+  let disagreeing = 0;
+  for (const f of withDiary) {
+    const diary = f.ratingHistory.filter(p => p.source === "diary");
+    if (f.rating !== null && diary[diary.length - 1].rating !== f.rating) disagreeing += 1;
+  }
+
+  const moves = withHistory.map(f => {
+    const h = f.ratingHistory;
+    return { f, delta: h[h.length - 1].rating - h[0].rating, distinct: new Set(h.map(p => p.rating)).size };
+  });
+  const deltas = moves.map(m => m.delta);
+
+  const changed = moves.filter(m => m.distinct > 1);
+  const changedMind = changed
+    .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta) || a.f.name.localeCompare(b.f.name))
+    .slice(0, 20)
+    .map(({ f, delta }) => ({
+      name: f.name,
+      year: f.year,
+      diaryRatings: f.ratingHistory.filter(p => p.source === "diary").map(p => p.rating),
+      current: f.rating,
+      delta
+    }));
+
+  return {
+    filmsWithDiaryRatings: withDiary.length,
+    filmsWithHistory: withHistory.length,
+    disagreeing,
+    raised: deltas.filter(d => d > 0).length,
+    lowered: deltas.filter(d => d < 0).length,
+    meanDelta: mean(deltas),
+    meanAbsDelta: mean(deltas.map(Math.abs)),
+    changedCount: changed.length,
+    changedMind
+  };
+}
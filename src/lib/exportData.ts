@@ -0,0 +1,156 @@
+import Papa from "papaparse";
+import { FilmRecord, MergeAnomaly, MergeDebugSummary, MergeResult } from "./letterboxd";
+import { ImportError } from "./schema";
+import { StatPack } from "./stats";
+
+export const BUNDLE_FORMAT = "letterboxd-taste-bundle";
+// Bump when FilmRecord or the bundle shape changes; readBundle refuses versions it does not know.
+export const BUNDLE_VERSION = 1;
+
+/** Everything the merge produced, so a later visit can skip the ZIP; stats are recomputed on load. */
+export type Bundle = MergeResult & {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  label: string | null;
+};
+
+/** The master table, one row per film; list fields are joined into one cell. */
+export function filmsToCSV(films: FilmRecord[]): string {
+  return Papa.unparse(films.map(f => ({
+    Key: f.key,
+    Name: f.name,
+    Year: f.year ?? "",
+    "Letterboxd URI": f.letterboxdUri ?? "",
+    Watched: f.watched ? "Yes" : "",
+    "Watch Count": f.watchedDates.length,
+    "First Watched": f.watchedDates[0] ?? "",
+    "Last Watched": f.watchedDates[f.watchedDates.length - 1] ?? "",
+    Rating: f.rating ?? "",
+    "Rated Date": f.ratedDates[f.ratedDates.length - 1] ?? "",
+    Rewatches: f.rewatchCount,
+    Reviews: f.reviewCount,
+    Tags: f.tags.join(", "),
+    Liked: f.liked ? "Yes" : "",
+    Watchlisted: f.watchlisted ? "Yes" : "",
+    "Watchlisted At": f.watchlistedAt ?? "",
+    Lists: f.lists.map(l => l.list).join("; "),
+    Sources: f.sources.join(" ")
+  })));
+}
+
+/** One row per diary entry, with the film's name, year and link repeated. */
+export function diaryToCSV(films: FilmRecord[]): string {
+  const rows = films.flatMap(f => f.diaryEntries.map(e => ({ f, e })))
+    .sort((a, b) => a.e.watchedAt.localeCompare(b.e.watchedAt));
+  return Papa.unparse(rows.map(({ f, e }) => ({
+    "Watched Date": e.watchedAt,
+    "Date Estimated": e.estimated ? "Yes" : "",
+    "Logged Date": e.loggedAt ?? "",
+    Name: f.name,
+    Year: f.year ?? "",
+    "Letterboxd URI": f.letterboxdUri ?? "",
+    Rating: e.rating ?? "",
+    Rewatch: e.rewatch ? "Yes" : "",
+    Tags: e.tags.join(", ")
+  })));
+}
+
+/** FilmRecords as they are, diary entries, rating history and list memberships nested. */
+export function filmsToJSON(films: FilmRecord[]): string {
+  return JSON.stringify(films, null, 2);
+}
+
+export function statsToJSON(stats: StatPack): string {
+  return JSON.stringify(stats, null, 2);
+}
+
+export function toBundle(merged: MergeResult, label: string | null): string {
+  const bundle: Bundle = { format: BUNDLE_FORMAT, version: BUNDLE_VERSION, exportedAt: new Date().toISOString(), label, ...merged };
+  return JSON.stringify(bundle);
+}
+
+/** Cheap check on a file's start, so large CSVs are never parsed as JSON. */
+export function looksLikeBundle(text: string): boolean {
+  return text.trimStart().startsWith("{") && text.slice(0, 200).includes(`"${BUNDLE_FORMAT}"`);
+}
+
+const isString = (v: unknown): v is string => typeof v === "string";
+const isNumber = (v: unknown): v is number => typeof v === "number" && Number.isFinite(v);
+const isBoolean = (v: unknown): v is boolean => typeof v === "boolean";
+const orNull = (check: (v: unknown) => boolean) => (v: unknown) => v === null || check(v);
+const listOf = (check: (v: any) => boolean) => (v: unknown) => Array.isArray(v) && v.every(check);
+const isObject = (v: unknown): v is Record<string, any> => !!v && typeof v === "object" && !Array.isArray(v);
+
+// Every field the stats, dossier, exports and film views read, so a damaged bundle fails here rather than in one of them.
+const FILM_FIELDS: Record<keyof FilmRecord, (v: any) => boolean> = {
+  key: isString,
+  slug: isString,
+  name: isString,
+  year: orNull(isNumber),
+  letterboxdUri: orNull(isString),
+  watched: isBoolean,
+  watchedDates: listOf(isString),
+  rated: isBoolean,
+  rating: orNull(isNumber),
+  ratedDates: listOf(isString),
+  ratingHistory: listOf(p => isObject(p) && isNumber(p.rating) && orNull(isString)(p.date)),
+  diaryEntries: listOf(e => isObject(e) && isString(e.watchedAt) && isBoolean(e.rewatch) && orNull(isNumber)(e.rating) && listOf(isString)(e.tags)),
+  rewatchCount: isNumber,
+  reviewCount: isNumber,
+  reviewTextSamples: listOf(isString),
+  tags: listOf(isString),
+  liked: isBoolean,
+  lists: listOf(l => isObject(l) && isString(l.list)),
+  watchlisted: isBoolean,
+  watchlistedAt: orNull(isString),
+  sources: listOf(isString),
+  matchedBy: listOf(isString)
+};
+
+const ANOMALY_FIELDS: Record<keyof MergeAnomaly, (v: any) => boolean> = {
+  importSpikeDetected: isBoolean,
+  largestSingleDayImportCount: isNumber,
+  largestSingleDayImportDate: orNull(isString),
+  percentWithWatchedAt: isNumber,
+  watchedDateSpanYears: isNumber,
+  diaryEntrySpanYears: isNumber
+};
+
+function hasFields<T>(v: unknown, fields: Record<keyof T, (v: any) => boolean>): v is T {
+  return isObject(v) && Object.entries<(v: any) => boolean>(fields).every(([k, check]) => check(v[k]));
+}
+
+// Only what the debug panel walks is checked; a missing counter just shows blank there.
+function validDebug(d: unknown): d is MergeDebugSummary {
+  if (!isObject(d) || !isObject(d.identity) || !isObject(d.identity.byMethod)) return false;
+  return listOf(isString)(d.csvDetected) && listOf(isString)(d.deletedFilesIgnored) && listOf(isObject)(d.randomFilmSamples) &&
+    listOf(c => isObject(c) && isString(c.name) && listOf(isString)(c.keys))(d.identity.collisions) &&
+    listOf(m => isObject(m) && isString(m.name) && isString(m.key))(d.identity.fuzzyMerges) &&
+    Object.values(d.identity.byMethod).every(isNumber) && isNumber(d.identity.ambiguousTitleMatches);
+}
+
+/** A bundle back into merge output; throws ImportError for damaged files and versions this app does not read. */
+export function readBundle(text: string): Bundle {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ImportError("The bundle is not valid JSON; it may have been cut off while downloading.");
+  }
+  if (data?.format !== BUNDLE_FORMAT) throw new ImportError("This JSON file is not a Letterboxd taste bundle.");
+  if (!Number.isInteger(data.version) || data.version < 1) throw new ImportError(`This bundle has no valid version (${JSON.stringify(data.version)}); export a new bundle from the original ZIP.`);
+  if (data.version > BUNDLE_VERSION) {
+    throw new ImportError(`This bundle is version ${data.version}, newer than this app reads (up to ${BUNDLE_VERSION}). Reload the page for the latest version.`);
+  }
+  if (!isString(data.exportedAt) || Number.isNaN(Date.parse(data.exportedAt)) || !orNull(isString)(data.label ?? null)) {
+    throw new ImportError("The bundle's header is damaged; export a new bundle from the original ZIP.");
+  }
+  if (!Array.isArray(data.films) || !data.films.every((f: unknown) => hasFields<FilmRecord>(f, FILM_FIELDS))) {
+    throw new ImportError("The bundle's film table is damaged; export a new bundle from the original ZIP.");
+  }
+  if (!hasFields<MergeAnomaly>(data.anomaly, ANOMALY_FIELDS) || !validDebug(data.debug)) {
+    throw new ImportError("The bundle's merge summary is damaged; export a new bundle from the original ZIP.");
+  }
+  return { ...data, label: data.label ?? null } as Bundle;
+}
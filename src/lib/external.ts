@@ -0,0 +1,168 @@
+import Papa from "papaparse";
+import { RawRow } from "./letterboxd";
+import { ExternalService } from "./services";
+import { normaliseHeader, safeNum, toISODateOnly } from "./utils";
+
+/**
+ * What another service's export adds to the master table. Rows use
+ * Letterboxd's own column names (Date, Name, Year, Rating, Watched Date,
+ * Rewatch) so the merge reads them like an export.
+ */
+export type ExternalTable = {
+  service: ExternalService;
+  file: string;
+  watched: RawRow[];
+  ratings: RawRow[];
+  diary: RawRow[];
+  watchlist: RawRow[];
+  /** Entries of the export that were kept (one per film rating, play or watchlist item). */
+  kept: number;
+  /** TV shows, episodes and other entries that are not films, left out on purpose. */
+  skipped: number;
+  /** Set when the file was recognised but holds nothing the merge can use. */
+  note?: string;
+};
+
+// IMDb "Title Type" values that are films on Letterboxd, in the old (tvMovie) and new (TV Movie) spellings alike.
+const IMDB_FILM_TYPES = ["movie", "tvmovie", "short", "tvshort", "video", "tvspecial"];
+
+/** A 10-point rating (IMDb, Trakt, TMDB) as Letterboxd half-stars; TMDB's percentage form is scaled down first. */
+export function toHalfStars(raw: unknown): number | null {
+  const n = safeNum(raw);
+  if (n === null || n <= 0) return null;
+  const tenPoint = n > 10 ? n / 10 : n;
+  return Math.min(5, Math.max(0.5, Math.round(tenPoint) / 2));
+}
+
+function headerRow(text: string): string[] {
+  const first = text.replace(/^\uFEFF/, "").split(/\r?\n/, 1)[0] || "";
+  return (Papa.parse<string[]>(first).data[0] || []).map(h => normaliseHeader(String(h)));
+}
+
+function jsonArray(text: string): any[] | null {
+  try {
+    const data = JSON.parse(text);
+    return Array.isArray(data) ? data : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Recognises another service's export by its columns (CSV) or item shape (JSON); null for Letterboxd files and anything else. */
+export function detectService(filename: string, text: string): ExternalService | null {
+  if (filename.toLowerCase().endsWith(".json")) {
+    const items = jsonArray(text);
+    const traktLike = (x: any) => x && typeof x === "object" && ("movie" in x || "show" in x || "episode" in x || "season" in x);
+    return items && items.length > 0 && items.every(traktLike) ? "trakt" : null;
+  }
+  const header = headerRow(text);
+  if (header.includes("const") && header.includes("title type")) return "imdb";
+  if (header.includes("tmdb id")) return "tmdb";
+  return null;
+}
+
+function emptyTable(service: ExternalService, file: string): ExternalTable {
+  return { service, file, watched: [], ratings: [], diary: [], watchlist: [], kept: 0, skipped: 0 };
+}
+
+function csvRows(text: string): RawRow[] {
+  const res = Papa.parse<RawRow>(text.replace(/^\uFEFF/, ""), { header: true, skipEmptyLines: true });
+  return res.data.filter(r => Object.keys(r).length > 0);
+}
+
+function pick(row: RawRow, names: string[]): string {
+  const keys = Object.keys(row);
+  for (const n of names) {
+    const k = keys.find(key => normaliseHeader(key) === normaliseHeader(n));
+    if (k && String(row[k]).trim()) return String(row[k]).trim();
+  }
+  return "";
+}
+
+function film(date: string | null, name: string, year: string | number | null): RawRow {
+  return { Date: date || "", Name: name, Year: year === null ? "" : String(year) };
+}
+
+/**
+ * IMDb and TMDB share a layout: one CSV per list, with "Your Rating" only on
+ * the ratings export. Ratings count as watched, as they do on Letterboxd; a
+ * list without ratings is read as the watchlist only when its name says so.
+ */
+function readRatingsCsv(service: "imdb" | "tmdb", file: string, text: string): ExternalTable {
+  const out = emptyTable(service, file);
+  const rows = csvRows(text);
+  const hasRatings = rows.some(r => pick(r, ["Your Rating"]));
+  const watchlist = !hasRatings && file.toLowerCase().includes("watchlist");
+  if (!hasRatings && !watchlist) {
+    // Not TV left out: the whole list is of a kind the merge does not read, so `skipped` stays 0 and the note says why.
+    out.note = `A list without ratings; its ${rows.length} entr${rows.length === 1 ? "y was" : "ies were"} not read. Only the ratings and watchlist exports are read.`;
+    return out;
+  }
+  for (const r of rows) {
+    const type = pick(r, service === "imdb" ? ["Title Type"] : ["Type"]).toLowerCase().replace(/[^a-z]/g, "");
+    const isFilm = service === "imdb" ? IMDB_FILM_TYPES.includes(type) : type === "" || type === "movie";
+    const name = pick(r, ["Title", "Name", "Original Title"]);
+    if (!isFilm || !name) {
+      out.skipped += 1;
+      continue;
+    }
+    const year = pick(r, ["Year"]) || (toISODateOnly(pick(r, ["Release Date"])) || "").slice(0, 4) || null;
+    out.kept += 1;
+    if (watchlist) {
+      out.watchlist.push(film(toISODateOnly(pick(r, ["Created", "Date Added", "Date"])), name, year));
+      continue;
+    }
+    const rating = toHalfStars(pick(r, ["Your Rating"]));
+    const date = toISODateOnly(pick(r, ["Date Rated", "Date"]));
+    out.watched.push(film(date, name, year));
+    if (rating !== null) out.ratings.push({ ...film(date, name, year), Rating: String(rating) });
+  }
+  return out;
+}
+
+/**
+ * Trakt exports one JSON array per file (history, ratings, watched,
+ * watchlist). Items are told apart by their date field; only movies are kept.
+ * History plays after a film's first count as rewatches.
+ */
+function readTrakt(file: string, text: string): ExternalTable {
+  const out = emptyTable("trakt", file);
+  const plays = new Map<string, number>();
+  const items = (jsonArray(text) || []).slice().sort((a, b) => String(a?.watched_at || "").localeCompare(String(b?.watched_at || "")));
+  for (const item of items) {
+    const movie = item?.movie;
+    // Collection and other lists carry none of these dates and say nothing about watching.
+    const dated = item?.watched_at || item?.rated_at || item?.rating !== undefined || item?.last_watched_at || item?.plays || item?.listed_at;
+    if (!movie?.title || (item.type && item.type !== "movie") || !dated) {
+      out.skipped += 1;
+      continue;
+    }
+    out.kept += 1;
+    const year = typeof movie.year === "number" ? movie.year : null;
+    if (item.watched_at) {
+      const id = String(movie.ids?.trakt ?? `${movie.title}::${year}`);
+      const seen = plays.get(id) || 0;
+      plays.set(id, seen + 1);
+      const day = toISODateOnly(item.watched_at);
+      out.diary.push({ ...film(day, movie.title, year), "Watched Date": day || "", Rewatch: seen > 0 ? "Yes" : "" });
+    } else if (item.rated_at || item.rating !== undefined) {
+      const rating = toHalfStars(item.rating);
+      const day = toISODateOnly(item.rated_at);
+      out.watched.push(film(day, movie.title, year));
+      if (rating !== null) out.ratings.push({ ...film(day, movie.title, year), Rating: String(rating) });
+    } else if (item.last_watched_at || item.plays) {
+      out.watched.push(film(toISODateOnly(item.last_watched_at), movie.title, year));
+    } else {
+      out.watchlist.push(film(toISODateOnly(item.listed_at), movie.title, year));
+    }
+  }
+  return out;
+}
+
+export function readService(service: ExternalService, file: string, text: string): ExternalTable {
+  return service === "trakt" ? readTrakt(file, text) : readRatingsCsv(service, file, text);
+}
+
+export function externalRows(t: ExternalTable): number {
+  return t.watched.length + t.ratings.length + t.diary.length + t.watchlist.length;
+}
@@ -0,0 +1,121 @@
+import { FilmRecord } from "./letterboxd";
+import { safeNum } from "./utils";
+
+export type FilmFilter = {
+  from: string | null;
+  to: string | null;
+  decades: string[];
+  ratingMin: number | null;
+  ratingMax: number | null;
+  tags: string[];
+  rewatchOnly: boolean;
+  reviewedOnly: boolean;
+};
+
+export const EMPTY_FILTER: FilmFilter = {
+  from: null,
+  to: null,
+  decades: [],
+  ratingMin: null,
+  ratingMax: null,
+  tags: [],
+  rewatchOnly: false,
+  reviewedOnly: false
+};
+
+export function isFilterActive(f: FilmFilter): boolean {
+  return Boolean(
+    f.from || f.to || f.decades.length || f.ratingMin !== null || f.ratingMax !== null ||
+    f.tags.length || f.rewatchOnly || f.reviewedOnly
+  );
+}
+
+export function decadeOf(year: number | null): string | null {
+  if (year === null) return null;
+  return `${Math.floor(year / 10) * 10}s`;
+}
+
+/**
+ * Narrows each film to the diary entries inside [from, to] (inclusive ISO
+ * dates). Films left with no entries are dropped; the unwatched watchlist
+ * backlog has no dates and passes through unchanged.
+ */
+export function narrowToDateRange(films: FilmRecord[], from: string | null, to: string | null): FilmRecord[] {
+  if (!from && !to) return films;
+  const out: FilmRecord[] = [];
+  for (const f of films) {
+    if (f.watchlisted && !f.watched) {
+      out.push(f);
+      continue;
+    }
+    const entries = f.diaryEntries.filter(e => (!from || e.watchedAt >= from) && (!to || e.watchedAt <= to));
+    if (!entries.length) continue;
+    out.push({
+      ...f,
+      watched: true,
+      diaryEntries: entries,
+      watchedDates: Array.from(new Set(entries.map(e => e.watchedAt))).sort(),
+      rewatchCount: entries.filter(e => e.rewatch).length,
+      tags: Array.from(new Set(entries.flatMap(e => e.tags)))
+    });
+  }
+  return out;
+}
+
+function matches(f: FilmRecord, q: FilmFilter): boolean {
+  if (q.decades.length) {
+    const d = decadeOf(f.year);
+    if (!d || !q.decades.includes(d)) return false;
+  }
+  if (q.ratingMin !== null && (f.rating === null || f.rating < q.ratingMin)) return false;
+  if (q.ratingMax !== null && (f.rating === null || f.rating > q.ratingMax)) return false;
+  if (q.tags.length && !q.tags.some(t => f.tags.includes(t))) return false;
+  if (q.rewatchOnly && f.rewatchCount === 0) return false;
+  if (q.reviewedOnly && f.reviewCount === 0) return false;
+  return true;
+}
+
+export function applyFilter(films: FilmRecord[], q: FilmFilter): FilmRecord[] {
+  return narrowToDateRange(films, q.from, q.to).filter(f => matches(f, q));
+}
+
+export function describeFilter(q: FilmFilter): string {
+  const parts: string[] = [];
+  if (q.from || q.to) parts.push(`${q.from || "…"} → ${q.to || "…"}`);
+  if (q.decades.length) parts.push(q.decades.join(", "));
+  if (q.ratingMin !== null || q.ratingMax !== null) parts.push(`★${q.ratingMin ?? 0.5}–${q.ratingMax ?? 5}`);
+  if (q.tags.length) parts.push(q.tags.map(t => `#${t}`).join(" "));
+  if (q.rewatchOnly) parts.push("rewatches");
+  if (q.reviewedOnly) parts.push("reviewed");
+  return parts.join(" · ");
+}
+
+export function filterToHash(q: FilmFilter): string {
+  const p = new URLSearchParams();
+  if (q.from) p.set("from", q.from);
+  if (q.to) p.set("to", q.to);
+  if (q.decades.length) p.set("dec", q.decades.join(","));
+  if (q.ratingMin !== null) p.set("rmin", String(q.ratingMin));
+  if (q.ratingMax !== null) p.set("rmax", String(q.ratingMax));
+  if (q.tags.length) p.set("tag", q.tags.join(","));
+  if (q.rewatchOnly) p.set("rw", "1");
+  if (q.reviewedOnly) p.set("rv", "1");
+  const s = p.toString();
+  return s ? `#${s}` : "";
+}
+
+export function filterFromHash(hash: string): FilmFilter {
+  const p = new URLSearchParams(hash.replace(/^#/, ""));
+  const isoOrNull = (v: string | null) => (v && /^\d{4}-\d{2}-\d{2}$/.test(v) ? v : null);
+  const list = (v: string | null) => (v || "").split(",").map(s => s.trim()).filter(Boolean);
+  return {
+    from: isoOrNull(p.get("from")),
+    to: isoOrNull(p.get("to")),
+    decades: list(p.get("dec")).filter(d => /^\d{4}s$/.test(d)),
+    ratingMin: safeNum(p.get("rmin")),
+    ratingMax: safeNum(p.get("rmax")),
+    tags: list(p.get("tag")),
+    rewatchOnly: p.get("rw") === "1",
+    reviewedOnly: p.get("rv") === "1"
+  };
+}
@@ -0,0 +1,161 @@
+export type MatchMethod = "uri" | "title" | "fuzzy" | "new";
+
+export type IdentityInput = {
+  name: string;
+  year: number | null;
+  uri: string | null;
+  // Whether the table's URI column points at the film itself. Diary and review
+  // exports link to the entry (boxd.it/<entry>), not the film.
+  filmUri: boolean;
+};
+
+export type IdentityMatch = {
+  key: string;
+  method: MatchMethod;
+  slug: string | null;
+};
+
+export type IdentityReport = {
+  byMethod: Record<MatchMethod, number>;
+  collisions: Array<{ name: string; year: number | null; keys: string[] }>;
+  fuzzyMerges: Array<{ name: string; year: number | null; matchedYear: number | null; key: string }>;
+  ambiguousTitleMatches: number;
+};
+
+type Known = { key: string; folded: string; year: number | null; slug: string | null };
+
+const REPORT_LIMIT = 25;
+
+export function foldTitle(v: string | null): string {
+  return (v || "")
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+export function extractSlug(link: string | null): string {
+  const v = (link || "").trim();
+  const short = v.match(/boxd\.it\/([a-zA-Z0-9]+)/);
+  if (short?.[1]) return short[1].toLowerCase();
+  const full = v.match(/letterboxd\.com\/film\/([^/\s?#]+)/);
+  if (full?.[1]) return full[1].toLowerCase();
+  return "";
+}
+
+function filmSlug(input: IdentityInput): string | null {
+  if (input.filmUri) return extractSlug(input.uri) || null;
+  // Entry links can still carry a canonical /film/<slug>/ path.
+  const full = (input.uri || "").match(/letterboxd\.com\/(?:[^/\s]+\/)?film\/([^/\s?#]+)/);
+  return full?.[1] ? full[1].toLowerCase() : null;
+}
+
+export function titleKey(folded: string, year: number | null): string {
+  return `${folded}::${year ?? "unknown"}`;
+}
+
+/**
+ * Resolves rows from different CSVs to one film identity. Stages, in order:
+ * Letterboxd URI slug, folded title + year, folded title with a ±1 year
+ * tolerance. Rows that match nothing start a new identity.
+ */
+export function createIdentityResolver() {
+  const bySlug = new Map<string, Known>();
+  const byTitle = new Map<string, Known[]>();
+  const byFolded = new Map<string, Known[]>();
+  const collisions = new Map<string, Set<string>>();
+
+  const report: IdentityReport = {
+    byMethod: { uri: 0, title: 0, fuzzy: 0, new: 0 },
+    collisions: [],
+    fuzzyMerges: [],
+    ambiguousTitleMatches: 0
+  };
+
+  function noteCollision(folded: string, year: number | null, keys: string[]) {
+    const k = titleKey(folded, year);
+    const set = collisions.get(k) || new Set<string>();
+    for (const x of keys) set.add(x);
+    collisions.set(k, set);
+  }
+
+  function adoptSlug(known: Known, slug: string | null) {
+    if (!slug || known.slug) return;
+    known.slug = slug;
+    bySlug.set(slug, known);
+  }
+
+  function register(input: IdentityInput, folded: string, slug: string | null): Known {
+    const key = slug ? `uri:${slug}` : `title:${titleKey(folded, input.year)}`;
+    const known: Known = { key, folded, year: input.year, slug };
+    if (slug) bySlug.set(slug, known);
+    const tk = titleKey(folded, input.year);
+    byTitle.set(tk, [...(byTitle.get(tk) || []), known]);
+    byFolded.set(folded, [...(byFolded.get(folded) || []), known]);
+    return known;
+  }
+
+  function done(known: Known, method: MatchMethod): IdentityMatch {
+    report.byMethod[method] += 1;
+    return { key: known.key, method, slug: known.slug };
+  }
+
+  function resolve(input: IdentityInput): IdentityMatch | null {
+    const folded = foldTitle(input.name);
+    if (!folded) return null;
+    const slug = filmSlug(input);
+
+    const bySlugHit = slug ? bySlug.get(slug) : undefined;
+    if (bySlugHit) return done(bySlugHit, "uri");
+
+    // A candidate already bound to another slug is a different film.
+    const compatible = (k: Known) => !slug || !k.slug || k.slug === slug;
+
+    const exact = byTitle.get(titleKey(folded, input.year)) || [];
+    const exactOk = exact.filter(compatible);
+    if (exactOk.length) {
+      if (exactOk.length > 1) {
+        report.ambiguousTitleMatches += 1;
+        noteCollision(folded, input.year, exactOk.map(k => k.key));
+      }
+      adoptSlug(exactOk[0], slug);
+      return done(exactOk[0], "title");
+    }
+
+    if (input.year !== null) {
+      const near = (byFolded.get(folded) || [])
+        .filter(k => k.year !== null && Math.abs(k.year - input.year!) === 1)
+        .filter(compatible);
+      if (near.length === 1) {
+        adoptSlug(near[0], slug);
+        // Later rows with this title and year then match by title, so each pair is reported as one fuzzy merge.
+        const tk = titleKey(folded, input.year);
+        byTitle.set(tk, [...(byTitle.get(tk) || []), near[0]]);
+        if (report.fuzzyMerges.length < REPORT_LIMIT) {
+          report.fuzzyMerges.push({ name: input.name, year: input.year, matchedYear: near[0].year, key: near[0].key });
+        }
+        return done(near[0], "fuzzy");
+      }
+    }
+
+    const known = register(input, folded, slug);
+    if (exact.length) noteCollision(folded, input.year, [...exact.map(k => k.key), known.key]);
+    return done(known, "new");
+  }
+
+  function summary(names: Map<string, string>): IdentityReport {
+    return {
+      ...report,
+      collisions: Array.from(collisions.entries()).slice(0, REPORT_LIMIT).map(([tk, keys]) => {
+        const first = Array.from(keys)[0];
+        const year = tk.split("::")[1];
+        return { name: names.get(first) || tk, year: year === "unknown" ? null : Number(year), keys: Array.from(keys) };
+      })
+    };
+  }
+
+  return { resolve, summary };
+}
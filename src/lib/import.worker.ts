@@ -0,0 +1,22 @@
+import { ImportMessage, ImportRequest, runImport } from "./importPipeline";
+import { ImportError } from "./schema";
+
+// Progress is posted at most this often; parsing reports far more often than the UI can draw.
+const PROGRESS_INTERVAL_MS = 100;
+
+const post = (msg: ImportMessage) => postMessage(msg);
+
+onmessage = async (e: MessageEvent<ImportRequest>) => {
+  let last = 0;
+  try {
+    const result = await runImport(e.data.input, e.data.label, (progress) => {
+      const now = Date.now();
+      if (progress.stage !== "stats" && now - last < PROGRESS_INTERVAL_MS) return;
+      last = now;
+      post({ type: "progress", progress });
+    });
+    post({ type: "done", result });
+  } catch (err: any) {
+    post({ type: "error", message: err?.message || "Import failed.", report: err instanceof ImportError ? err.report : undefined });
+  }
+};
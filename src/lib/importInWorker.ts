@@ -0,0 +1,29 @@
+import { ImportInput, ImportMessage, ImportProgress, ImportRequest, ImportResult, runImport } from "./importPipeline";
+import { ImportError } from "./schema";
+
+/** Runs the import pipeline off the main thread so large exports do not freeze the tab. */
+export function importInWorker(input: ImportInput, label: string | null, onProgress?: (p: ImportProgress) => void): Promise<ImportResult> {
+  if (typeof Worker === "undefined") return runImport(input, label, onProgress);
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL("./import.worker.ts", import.meta.url), { type: "module" });
+    let heard = false;
+    worker.onmessage = (e: MessageEvent<ImportMessage>) => {
+      const msg = e.data;
+      heard = true;
+      if (msg.type === "progress") {
+        onProgress?.(msg.progress);
+        return;
+      }
+      worker.terminate();
+      if (msg.type === "done") resolve(msg.result);
+      else reject(new ImportError(msg.message, msg.report));
+    };
+    // A worker that fails before saying anything could not start (no module worker support): run in place instead.
+    worker.onerror = (e) => {
+      worker.terminate();
+      if (!heard) runImport(input, label, onProgress).then(resolve, reject);
+      else reject(new Error(e.message || "Import worker failed."));
+    };
+    worker.postMessage({ input, label } satisfies ImportRequest);
+  });
+}
@@ -0,0 +1,51 @@
+import { LooseCsv, MergeResult, mergeTablesToFilms, readLetterboxdExportZip, readLooseCsvs, ReadProgress } from "./letterboxd";
+import { looksLikeBundle, readBundle } from "./exportData";
+import { ImportError, ImportReport } from "./schema";
+import { computeStats, StatPack } from "./stats";
+
+export type ImportProgress =
+  | { stage: "read"; file: string; filesDone: number; filesTotal: number; rows: number }
+  | { stage: "merge"; rowsDone: number; rowsTotal: number; films: number }
+  | { stage: "stats"; films: number };
+
+export type ImportResult = MergeResult & { stats: StatPack };
+
+/** The export ZIP, loose files from a folder, a multi-select or pasted text, or a saved bundle. */
+export type ImportInput = Blob | ArrayBuffer | LooseCsv[];
+
+/** Worker protocol: one request in, any number of progress messages, then done or error. */
+export type ImportRequest = { input: ImportInput; label: string | null };
+export type ImportMessage =
+  | { type: "progress"; progress: ImportProgress }
+  | { type: "done"; result: ImportResult }
+  | { type: "error"; message: string; report?: ImportReport };
+
+/** The text of a saved bundle when the input is one; bundles are not merged with other files. */
+async function bundleText(input: ImportInput): Promise<{ file: string; text: string } | null> {
+  if (!Array.isArray(input)) return null;
+  for (const f of input) {
+    if (typeof f.data !== "string" && !/\.json$/i.test(f.path)) continue;
+    const text = typeof f.data === "string" ? f.data : await f.data.text();
+    if (!looksLikeBundle(text)) continue;
+    if (input.length > 1) throw new ImportError("Import a saved bundle on its own, without other files.");
+    return { file: f.path, text };
+  }
+  return null;
+}
+
+/** Read, merge and stats in one go; runs in the import worker, or on the main thread where workers are missing. */
+export async function runImport(input: ImportInput, label: string | null, onProgress?: (p: ImportProgress) => void): Promise<ImportResult> {
+  const saved = await bundleText(input);
+  if (saved) {
+    const bundle = readBundle(saved.text);
+    onProgress?.({ stage: "stats", films: bundle.films.length });
+    const restored = `Restored ${bundle.films.length} films from a bundle saved ${bundle.exportedAt.slice(0, 10)}.`;
+    const debug = { ...bundle.debug, importReport: { tables: [], messages: [{ level: "info" as const, file: saved.file, text: restored }] } };
+    return { films: bundle.films, anomaly: bundle.anomaly, debug, stats: computeStats(bundle.films, label || bundle.label) };
+  }
+  const onRead = (p: ReadProgress) => onProgress?.({ stage: "read", ...p });
+  const tables = Array.isArray(input) ? await readLooseCsvs(input, onRead) : await readLetterboxdExportZip(input, onRead);
+  const merged = mergeTablesToFilms(tables, (p) => onProgress?.({ stage: "merge", ...p }));
+  onProgress?.({ stage: "stats", films: merged.films.length });
+  return { ...merged, stats: computeStats(merged.films, label) };
+}
@@ -0,0 +1,63 @@
+import { LooseCsv } from "./letterboxd";
+import { ImportInput } from "./importPipeline";
+
+/** What the import card hands to the pipeline, with the name shown for it. */
+export type ImportSource = { input: ImportInput; name: string };
+
+type PickedFile = { path: string; file: File };
+
+function readEntries(dir: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+  const reader = dir.createReader();
+  const out: FileSystemEntry[] = [];
+  // readEntries hands back at most ~100 entries per call; an empty batch marks the end.
+  return new Promise((resolve, reject) => {
+    const next = () => reader.readEntries((batch) => {
+      if (!batch.length) return resolve(out);
+      out.push(...batch);
+      next();
+    }, reject);
+    next();
+  });
+}
+
+async function walk(entry: FileSystemEntry, out: PickedFile[]): Promise<void> {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    out.push({ path: entry.fullPath.replace(/^\//, ""), file });
+  } else if (entry.isDirectory) {
+    for (const child of await readEntries(entry as FileSystemDirectoryEntry)) await walk(child, out);
+  }
+}
+
+/** Files from a drop, folders walked recursively with their relative paths kept. */
+export async function droppedFiles(dt: DataTransfer): Promise<PickedFile[]> {
+  // Entries must be taken synchronously: the DataTransfer is emptied once the handler yields.
+  const entries = Array.from(dt.items, (item) => item.webkitGetAsEntry?.() ?? null);
+  if (entries.some((e) => !e)) return Array.from(dt.files, (file) => ({ path: file.name, file }));
+  const out: PickedFile[] = [];
+  for (const entry of entries) await walk(entry!, out);
+  return out;
+}
+
+/** Files from an <input type="file">; webkitRelativePath is set when a folder was picked. */
+export function pickedFiles(list: FileList): PickedFile[] {
+  return Array.from(list, (file) => ({ path: file.webkitRelativePath || file.name, file }));
+}
+
+/** A single ZIP goes through JSZip; otherwise every CSV, Trakt JSON and ZIP is read as loose tables. Null when there is nothing to import. */
+export function importSource(files: PickedFile[]): ImportSource | null {
+  const usable = files.filter((f) => /\.(csv|json|zip)$/i.test(f.path));
+  if (usable.length === 1 && /\.zip$/i.test(usable[0].path)) return { input: usable[0].file, name: usable[0].file.name };
+  if (!usable.length) return null;
+  const loose: LooseCsv[] = usable.map((f) => ({ path: f.path, data: f.file }));
+  const root = loose[0].path.includes("/") ? loose[0].path.split("/")[0] : null;
+  const names = loose.map((c) => c.path.split("/").pop());
+  const name = root && loose.every((c) => c.path.startsWith(`${root}/`))
+    ? `${root}/`
+    : names.slice(0, 3).join(", ") + (names.length > 3 ? ` +${names.length - 3}` : "");
+  return { input: loose, name };
+}
+
+export function pastedSource(text: string): ImportSource {
+  return { input: [{ path: "pasted.csv", data: text }], name: "pasted.csv" };
+}
@@ -1,10 +1,22 @@
 import JSZip from "jszip";
 import Papa from "papaparse";
-import { safeNum, toISODateOnly } from "./utils";
+import { detectService, ExternalTable, externalRows, readService } from "./external";
+import { createIdentityResolver, IdentityReport, MatchMethod } from "./identity";
+import { detectBySchema, ImportError, ImportReport, reportMessages, TableReport, validateTable } from "./schema";
+import { ExternalService } from "./services";
+import { normaliseHeader, safeNum, toISODateOnly } from "./utils";
 
 export type RawRow = Record<string, string>;
 
-type SupportedCsv = "watched" | "ratings" | "reviews" | "diary" | "watchlist" | "profile" | "comments";
+export type SupportedCsv = "watched" | "ratings" | "reviews" | "diary" | "watchlist" | "profile" | "comments" | "likes" | "lists";
+
+export type ListTable = {
+  file: string;
+  name: string;
+  url: string | null;
+  description: string | null;
+  entries: RawRow[];
+};
 
 export type ExportTables = {
   files: string[];
@@ -16,19 +28,43 @@ export type ExportTables = {
   watchlist: RawRow[];
   profile: RawRow[];
   comments: RawRow[];
+  likes: RawRow[];
+  lists: ListTable[];
+  deleted: Record<string, RawRow[]>;
   unknown: Record<string, RawRow[]>;
+  /** IMDb, Trakt and TMDB exports, merged after the Letterboxd tables. */
+  external: ExternalTable[];
+  report: ImportReport;
 };
 
 export type FilmKey = string;
 
+export type FilmSource = "watched" | "ratings" | "reviews" | "diary" | "likes" | "lists" | "watchlist" | ExternalService;
+
+// Tables whose URI column links to the film rather than to a diary entry or review.
+const FILM_URI_SOURCES: FilmSource[] = ["watched", "ratings", "watchlist", "likes", "lists"];
+
 export type DiaryEntry = {
   watchedAt: string;
   estimated: boolean;
   loggedAt: string | null;
   rewatch: boolean;
+  rating: number | null;
   tags: string[];
 };
 
+export type RatingPoint = {
+  date: string | null;
+  rating: number;
+  source: "diary" | "ratings";
+};
+
+export type ListMembership = {
+  list: string;
+  position: number | null;
+  notes: string | null;
+};
+
 export type FilmRecord = {
   key: FilmKey;
   slug: string;
@@ -42,6 +78,8 @@ export type FilmRecord = {
   rated: boolean;
   rating: number | null;
   ratedDates: string[];
+  // Diary ratings in watch order, then the current ratings.csv value last.
+  ratingHistory: RatingPoint[];
 
   diaryEntries: DiaryEntry[];
   rewatchCount: number;
@@ -50,7 +88,11 @@ export type FilmRecord = {
   tags: string[];
 
   liked: boolean;
-  sources: Array<"watched" | "ratings" | "reviews" | "diary">;
+  lists: ListMembership[];
+  watchlisted: boolean;
+  watchlistedAt: string | null;
+  sources: FilmSource[];
+  matchedBy: MatchMethod[];
 };
 
 export type MergeAnomaly = {
@@ -80,6 +122,16 @@ export type MergeDebugSummary = {
   largestSingleDayImportDate: string | null;
   watchedDateSpanYears: number;
   importSpikeDetected: boolean;
+  watchlistRowsTotal: number;
+  watchlistAlsoWatchedCount: number;
+  likesRowsTotal: number;
+  likedFilmsCount: number;
+  listsDetected: number;
+  listEntriesTotal: number;
+  listEntriesMatchedToWatchedCount: number;
+  deletedFilesIgnored: string[];
+  identity: IdentityReport;
+  importReport: ImportReport;
   randomFilmSamples: Array<{
     key: string;
     name: string;
@@ -88,6 +140,9 @@ export type MergeDebugSummary = {
     hasRating: boolean;
     hasReview: boolean;
     hasTags: boolean;
+    matchedBy: MatchMethod[];
+    liked: boolean;
+    listCount: number;
   }>;
 };
 
@@ -97,27 +152,106 @@ export type MergeResult = {
   debug: MergeDebugSummary;
 };
 
-function normaliseHeader(h: string): string {
-  return h.trim().toLowerCase();
+/** After each CSV file: rows counts every row parsed so far, across files. */
+export type ReadProgress = { file: string; filesDone: number; filesTotal: number; rows: number };
+export type MergeProgress = { rowsDone: number; rowsTotal: number; films: number };
+
+type FieldReader = (row: RawRow, names: string[]) => string | null;
+
+// Rows parsed per progress report, and rows merged per progress report.
+const PARSE_CHUNK_BYTES = 1 << 20;
+const MERGE_REPORT_EVERY = 2000;
+
+/**
+ * Field lookup for one table. Header aliases are normalised and resolved once
+ * per table (short rows can miss trailing columns, so every row's keys count)
+ * instead of once per lookup.
+ */
+function fieldReader(rows: RawRow[]): FieldReader {
+  const headers = new Map<string, string>();
+  for (const row of rows) for (const k of Object.keys(row)) headers.set(normaliseHeader(k), k);
+  const resolved = new Map<string, string[]>();
+  return (row, names) => {
+    const id = names.join("\u0000");
+    let keys = resolved.get(id);
+    if (!keys) {
+      keys = names.map(n => headers.get(normaliseHeader(n))).filter((k): k is string => k !== undefined);
+      resolved.set(id, keys);
+    }
+    for (const k of keys) {
+      const v = row[k];
+      if (v !== undefined && String(v).trim() !== "") return String(v);
+    }
+    return null;
+  };
 }
 
-function getField(row: RawRow, names: string[]): string | null {
-  const map: Record<string, string> = {};
-  for (const k of Object.keys(row)) map[normaliseHeader(k)] = row[k];
-  for (const n of names) {
-    const v = map[normaliseHeader(n)];
-    if (v !== undefined && String(v).trim() !== "") return String(v);
-  }
-  return null;
+/** Parses in chunks so large files report progress as they go; `fields` is the header row, kept for files with no rows. */
+function parseCSV(text: string, onRows?: (rows: number) => void): { rows: RawRow[]; fields: string[] } {
+  const out: RawRow[] = [];
+  let fields: string[] = [];
+  Papa.parse<RawRow>(text, {
+    header: true,
+    skipEmptyLines: true,
+    chunkSize: PARSE_CHUNK_BYTES,
+    chunk: (res: Papa.ParseResult<RawRow>) => {
+      if (!fields.length) fields = res.meta.fields || [];
+      for (const r of res.data) if (Object.keys(r).length > 0) out.push(r);
+      onRows?.(out.length);
+    },
+    // String input is parsed synchronously, chunks included, so `out` is complete on return.
+    complete: () => {}
+  });
+  return { rows: out, fields };
 }
 
-function parseCSV(text: string): RawRow[] {
-  const res = Papa.parse<RawRow>(text, { header: true, skipEmptyLines: true });
-  return (res.data || []).filter(r => Object.keys(r).length > 0);
+function parseListCSV(file: string, text: string): ListTable {
+  // List exports are two tables in one file: a title line, a one-row list
+  // header (Date, Name, Tags, URL, Description), then the entries table.
+  const res = Papa.parse<string[]>(text, { skipEmptyLines: true });
+  const grid = (res.data || []).filter(r => r.some(c => String(c).trim() !== ""));
+  const toRows = (header: string[], rows: string[][]): RawRow[] => rows.map((r) => {
+    const out: RawRow = {};
+    header.forEach((h, i) => { out[h] = r[i] ?? ""; });
+    return out;
+  });
+
+  const entriesAt = grid.findIndex(r => normaliseHeader(String(r[0] || "")) === "position");
+  const metaAt = grid.findIndex(r => r.some(c => normaliseHeader(String(c)) === "name"));
+  const meta = metaAt >= 0 && metaAt !== entriesAt ? toRows(grid[metaAt], grid.slice(metaAt + 1, metaAt + 2))[0] || {} : {};
+  const entries = entriesAt >= 0 ? toRows(grid[entriesAt], grid.slice(entriesAt + 1)) : [];
+  const fallbackName = file.split("/").pop()!.replace(/\.csv$/i, "").replace(/-/g, " ");
+  const field = fieldReader([meta]);
+
+  return {
+    file,
+    name: field(meta, ["Name"]) || fallbackName,
+    url: field(meta, ["URL", "Letterboxd URI"]),
+    description: field(meta, ["Description"]),
+    entries
+  };
+}
+
+/** A file that arrived on its own: from a dropped folder, a multi-select or pasted text. CSV, JSON from Trakt, or a ZIP picked alongside them. */
+export type LooseCsv = { path: string; data: Blob | string };
+
+// Folders an export keeps inside its root; anything above them is the export's own folder name.
+const EXPORT_DIRS = ["deleted", "likes", "lists", "orphaned"];
+
+/** Strips the folder an export was unzipped into, so a dropped folder reads like the ZIP. */
+function exportPaths(paths: string[]): string[] {
+  let split = paths.map(p => p.replace(/\\/g, "/").replace(/^\/+/, "").split("/"));
+  while (split.length && split.every(s => s.length > 1 && s[0] === split[0][0]) && !EXPORT_DIRS.includes(split[0][0].toLowerCase())) {
+    split = split.map(s => s.slice(1));
+  }
+  return split.map(s => s.join("/"));
 }
 
-function detectTableName(filename: string): SupportedCsv | "unknown" {
+function detectTableName(filename: string): SupportedCsv | "deleted" | "unknown" {
   const lower = filename.toLowerCase().trim();
+  if (lower.startsWith("deleted/")) return "deleted";
+  if (lower === "likes/films.csv") return "likes";
+  if (lower.startsWith("lists/") && lower.split("/").length === 2) return "lists";
   if (lower.includes("/")) return "unknown";
   if (lower === "watched.csv") return "watched";
   if (lower === "ratings.csv") return "ratings";
@@ -129,50 +263,139 @@ function detectTableName(filename: string): SupportedCsv | "unknown" {
   return "unknown";
 }
 
-export async function readLetterboxdExportZip(input: Blob | ArrayBuffer): Promise<ExportTables> {
-  const zip = await JSZip.loadAsync(input);
-  const files = Object.keys(zip.files).filter(f => f.toLowerCase().endsWith(".csv"));
-  const tables: ExportTables = {
+/** Header row of a top-level file under another name (renamed download, pasted text). */
+function detectByHeader(filename: string, text: string): SupportedCsv | "unknown" {
+  const lines = text.replace(/^\uFEFF/, "").split(/\r?\n/, 6).map(l => l.trim().toLowerCase());
+  if (lines[0]?.startsWith("letterboxd list export") || lines.some(l => l.startsWith("position,"))) return "lists";
+  return detectBySchema(filename, (Papa.parse<string[]>(lines[0] || "").data[0] || []).map(String));
+}
+
+function emptyTables(files: string[]): ExportTables {
+  return {
     files,
     detectedCsv: [],
-    watched: [], ratings: [], diary: [], reviews: [], watchlist: [], profile: [], comments: [],
-    unknown: {}
+    watched: [], ratings: [], diary: [], reviews: [], watchlist: [], profile: [], comments: [], likes: [],
+    lists: [],
+    deleted: {},
+    unknown: {},
+    external: [],
+    report: { tables: [], messages: [] }
   };
+}
 
-  for (const fn of files) {
-    const zf = zip.file(fn);
-    if (!zf) continue;
-    const rows = parseCSV(await zf.async("string"));
-    const kind = detectTableName(fn);
+function externalReport(ext: ExternalTable): TableReport {
+  return { ...validateTable(ext.file, ext.service, "header", [], []), rows: ext.kept, skipped: ext.skipped, note: ext.note };
+}
+
+/** Shared by every input: `read` returns the text of one of `files`, which are paths relative to the export root. */
+async function readTables(files: string[], read: (i: number) => Promise<string>, onProgress?: (p: ReadProgress) => void): Promise<ExportTables> {
+  const tables = emptyTables(files);
+  const reports: TableReport[] = [];
+
+  let rowsBefore = 0;
+  for (const [i, fn] of files.entries()) {
+    const text = await read(i);
+    const topLevel = !fn.includes("/");
+    // IMDb also calls its export ratings.csv, so other services are checked before file names.
+    const service = topLevel ? detectService(fn, text) : null;
+    if (service) {
+      const ext = readService(service, fn, text);
+      tables.external.push(ext);
+      reports.push(externalReport(ext));
+      rowsBefore += externalRows(ext);
+      onProgress?.({ file: fn, filesDone: i + 1, filesTotal: files.length, rows: rowsBefore });
+      continue;
+    }
+    if (fn.toLowerCase().endsWith(".json")) {
+      if (topLevel) reports.push(validateTable(fn, "unknown", "none", [], []));
+      onProgress?.({ file: fn, filesDone: i + 1, filesTotal: files.length, rows: rowsBefore });
+      continue;
+    }
+    let kind = detectTableName(fn);
+    const byName = kind !== "unknown";
+    if (!byName && topLevel) kind = detectByHeader(fn, text);
+    const detectedBy = byName ? "name" : kind !== "unknown" ? "header" : "none";
+    const report = (rows: number) => onProgress?.({ file: fn, filesDone: i, filesTotal: files.length, rows: rowsBefore + rows });
+    if (kind === "lists") {
+      if (!tables.detectedCsv.includes(kind)) tables.detectedCsv.push(kind);
+      const list = parseListCSV(fn, text);
+      tables.lists.push(list);
+      reports.push(validateTable(fn, kind, detectedBy, list.entries, Object.keys(list.entries[0] || {})));
+      rowsBefore += list.entries.length;
+      onProgress?.({ file: fn, filesDone: i + 1, filesTotal: files.length, rows: rowsBefore });
+      continue;
+    }
+    const { rows, fields } = parseCSV(text, report);
+    rowsBefore += rows.length;
+    onProgress?.({ file: fn, filesDone: i + 1, filesTotal: files.length, rows: rowsBefore });
+    if (kind === "deleted") {
+      // Deleted entries are kept for inspection but never merged.
+      tables.deleted[fn] = rows;
+      continue;
+    }
     if (kind === "unknown") {
+      // Files the export keeps in subfolders (orphaned/, likes/reviews.csv) are expected to go unused.
+      if (topLevel) reports.push(validateTable(fn, kind, detectedBy, rows, fields));
       tables.unknown[fn] = rows;
       continue;
     }
+    reports.push(validateTable(fn, kind, detectedBy, rows, fields));
     if (!tables.detectedCsv.includes(kind)) tables.detectedCsv.push(kind);
-    tables[kind] = rows;
+    // Several loose files can land on one table (a diary split in two); their rows add up.
+    tables[kind] = tables[kind].length ? tables[kind].concat(rows) : rows;
   }
 
+  tables.report = { tables: reports, messages: reportMessages(reports) };
+  if (!tables.detectedCsv.length && !tables.external.length) {
+    throw new ImportError(
+      files.length
+        ? `No film tables found among ${files.length} file${files.length > 1 ? "s" : ""}. Expected Letterboxd files like watched.csv or diary.csv, CSVs whose header row has Name, Year and Letterboxd URI, or an IMDb, TMDB or Trakt export.`
+        : "No CSV files found. Upload the export ZIP, its unzipped folder, or CSVs from it.",
+      tables.report
+    );
+  }
+  if (!reports.some(r => r.table !== "unknown" && !r.missingRequired.length && (r.skipped === undefined || r.rows > 0))) {
+    const first = tables.report.messages[0];
+    throw new ImportError(`None of the tables can be merged. ${first.file}: ${first.text}`, tables.report);
+  }
   return tables;
 }
 
-function normaliseName(v: string | null): string {
-  return (v || "").toLowerCase().replace(/\s+/g, " ").trim();
+type ExportEntry = { path: string; read: () => Promise<string> };
+
+async function zipEntries(input: Blob | ArrayBuffer): Promise<ExportEntry[]> {
+  // JSZip reads Blobs only in browsers; bytes work everywhere the pipeline runs.
+  const bytes = input instanceof Blob ? await input.arrayBuffer() : input;
+  const zip = await JSZip.loadAsync(bytes).catch(() => {
+    throw new ImportError("This file is not a readable ZIP archive. Upload the ZIP from Letterboxd's Settings → Data → Export, or its unzipped CSVs.");
+  });
+  return Object.keys(zip.files)
+    .filter(f => /\.(csv|json)$/i.test(f) && !zip.files[f].dir)
+    .map(f => ({ path: f, read: () => zip.file(f)!.async("string") }));
+}
+
+function readEntries(entries: ExportEntry[], onProgress?: (p: ReadProgress) => void): Promise<ExportTables> {
+  return readTables(exportPaths(entries.map(e => e.path)), (i) => entries[i].read(), onProgress);
 }
 
-function extractSlug(link: string | null): string {
-  const v = (link || "").trim();
-  const short = v.match(/boxd\.it\/([a-zA-Z0-9]+)/);
-  if (short?.[1]) return short[1].toLowerCase();
-  const full = v.match(/letterboxd\.com\/film\/([^/\s?#]+)/);
-  if (full?.[1]) return full[1].toLowerCase();
-  return "";
+export async function readLetterboxdExportZip(input: Blob | ArrayBuffer, onProgress?: (p: ReadProgress) => void): Promise<ExportTables> {
+  return readEntries(await zipEntries(input), onProgress);
 }
 
-function filmKeyFromRow(row: RawRow): FilmKey | null {
-  const name = normaliseName(getField(row, ["Name", "Film", "Title"]));
-  if (!name) return null;
-  const year = safeNum(getField(row, ["Year"]));
-  return `${name}::${year ?? "unknown"}`;
+/**
+ * Same tables as the ZIP, from loose files; files without a known name are
+ * detected by their header row. A ZIP among them (the Letterboxd export next
+ * to an IMDb CSV) is opened in place.
+ */
+export async function readLooseCsvs(files: LooseCsv[], onProgress?: (p: ReadProgress) => void): Promise<ExportTables> {
+  const entries: ExportEntry[] = [];
+  for (const f of files) {
+    const data = f.data;
+    if (typeof data === "string") entries.push({ path: f.path, read: () => Promise.resolve(data) });
+    else if (/\.zip$/i.test(f.path)) entries.push(...await zipEntries(data));
+    else if (/\.(csv|json)$/i.test(f.path)) entries.push({ path: f.path, read: () => data.text() });
+  }
+  return readEntries(entries, onProgress);
 }
 
 function spanYears(dates: string[]): number {
@@ -190,54 +413,77 @@ function shuffled<T>(arr: T[]): T[] {
   return out;
 }
 
-export function mergeTablesToFilms(t: ExportTables): MergeResult {
+export function mergeTablesToFilms(t: ExportTables, onProgress?: (p: MergeProgress) => void): MergeResult {
   const map = new Map<FilmKey, FilmRecord>();
   const watchedKeys = new Set<FilmKey>();
 
-  function upsert(row: RawRow): FilmRecord | null {
-    const key = filmKeyFromRow(row);
-    if (!key) return null;
-    const existing = map.get(key);
-    if (existing) return existing;
+  const identity = createIdentityResolver();
+  const rowsTotal = t.watched.length + t.ratings.length + t.diary.length + t.reviews.length + t.watchlist.length + t.likes.length
+    + t.lists.reduce((sum, l) => sum + l.entries.length, 0) + t.external.reduce((sum, e) => sum + externalRows(e), 0);
+  let rowsDone = 0;
+
+  function upsert(row: RawRow, source: FilmSource, field: FieldReader): FilmRecord | null {
+    rowsDone += 1;
+    if (onProgress && rowsDone % MERGE_REPORT_EVERY === 0) onProgress({ rowsDone, rowsTotal, films: map.size });
+    const name = field(row, ["Name", "Film", "Title"]);
+    const year = safeNum(field(row, ["Year"])) ?? null;
+    const uri = field(row, ["Letterboxd URI", "Letterboxd Uri", "URI", "Url", "URL", "Link", "Content"]);
+    const filmUri = FILM_URI_SOURCES.includes(source);
+    const match = identity.resolve({ name: name || "", year, uri, filmUri });
+    if (!match) return null;
+
+    const existing = map.get(match.key);
+    if (existing) {
+      if (!existing.matchedBy.includes(match.method)) existing.matchedBy.push(match.method);
+      if (match.slug && existing.slug === existing.key) existing.slug = match.slug;
+      if (filmUri && uri && !existing.letterboxdUri) existing.letterboxdUri = uri;
+      return existing;
+    }
 
-    const uri = getField(row, ["Letterboxd URI", "Letterboxd Uri", "URI", "Url", "URL", "Link", "Content"]);
     const rec: FilmRecord = {
-      key,
-      slug: extractSlug(uri) || key,
-      name: getField(row, ["Name", "Film", "Title"]) || "Unknown",
-      year: safeNum(getField(row, ["Year"])) ?? null,
-      letterboxdUri: uri,
+      key: match.key,
+      slug: match.slug || match.key,
+      name: name || "Unknown",
+      year,
+      letterboxdUri: filmUri ? uri : null,
       watched: false,
       watchedDates: [],
       rated: false,
       rating: null,
       ratedDates: [],
+      ratingHistory: [],
       diaryEntries: [],
       rewatchCount: 0,
       reviewCount: 0,
       reviewTextSamples: [],
       tags: [],
       liked: false,
-      sources: []
+      lists: [],
+      watchlisted: false,
+      watchlistedAt: null,
+      sources: [],
+      matchedBy: [match.method]
     };
-    map.set(key, rec);
+    map.set(match.key, rec);
     return rec;
   }
 
+  const watchedField = fieldReader(t.watched);
   for (const row of t.watched) {
-    const rec = upsert(row);
+    const rec = upsert(row, "watched", watchedField);
     if (!rec) continue;
     rec.watched = true;
     if (!rec.sources.includes("watched")) rec.sources.push("watched");
     watchedKeys.add(rec.key);
   }
 
+  const ratingsField = fieldReader(t.ratings);
   for (const row of t.ratings) {
-    const rec = upsert(row);
+    const rec = upsert(row, "ratings", ratingsField);
     if (!rec) continue;
     rec.rated = true;
-    rec.rating = safeNum(getField(row, ["Rating", "Rated", "Stars"]));
-    const d = toISODateOnly(getField(row, ["Date", "Rated Date"]));
+    rec.rating = safeNum(ratingsField(row, ["Rating", "Rated", "Stars"]));
+    const d = toISODateOnly(ratingsField(row, ["Date", "Rated Date"]));
     if (d) rec.ratedDates.push(d);
     if (!rec.sources.includes("ratings")) rec.sources.push("ratings");
   }
@@ -248,23 +494,25 @@ export function mergeTablesToFilms(t: ExportTables): MergeResult {
   const diaryEffectiveDates: string[] = [];
   const diaryLoggedDates: string[] = [];
 
+  const diaryField = fieldReader(t.diary);
   for (const row of t.diary) {
-    const rec = upsert(row);
+    const rec = upsert(row, "diary", diaryField);
     if (!rec) continue;
     if (watchedKeys.has(rec.key)) diaryRowsMatchedToWatchedCount += 1;
     if (!rec.sources.includes("diary")) rec.sources.push("diary");
 
-    const watchedAt = toISODateOnly(getField(row, ["Watched Date", "Watched At", "watched_at"]));
-    const loggedAt = toISODateOnly(getField(row, ["Date", "Logged Date", "logged_at"]));
+    const watchedAt = toISODateOnly(diaryField(row, ["Watched Date", "Watched At", "watched_at"]));
+    const loggedAt = toISODateOnly(diaryField(row, ["Date", "Logged Date", "logged_at"]));
     const effective = watchedAt || loggedAt;
     if (watchedAt) diaryWithWatchedAt += 1;
     if (!effective) continue;
 
-    const rewatchRaw = (getField(row, ["Rewatch"]) || "").trim().toLowerCase();
+    const rewatchRaw = (diaryField(row, ["Rewatch"]) || "").trim().toLowerCase();
     const rewatch = rewatchRaw === "yes" || rewatchRaw === "true" || rewatchRaw === "1";
-    const tags = (getField(row, ["Tags"]) || "").split(",").map(x => x.trim()).filter(Boolean);
+    const tags = (diaryField(row, ["Tags"]) || "").split(",").map(x => x.trim()).filter(Boolean);
+    const rating = safeNum(diaryField(row, ["Rating"]));
 
-    rec.diaryEntries.push({ watchedAt: effective, estimated: !watchedAt, loggedAt, rewatch, tags });
+    rec.diaryEntries.push({ watchedAt: effective, estimated: !watchedAt, loggedAt, rewatch, rating, tags });
     rec.watchedDates.push(effective);
     if (rewatch) rec.rewatchCount += 1;
     for (const tag of tags) rec.tags.push(tag);
@@ -273,21 +521,112 @@ export function mergeTablesToFilms(t: ExportTables): MergeResult {
     if (loggedAt) diaryLoggedDates.push(loggedAt);
   }
 
+  const reviewsField = fieldReader(t.reviews);
   for (const row of t.reviews) {
-    const rec = upsert(row);
+    const rec = upsert(row, "reviews", reviewsField);
     if (!rec) continue;
     if (watchedKeys.has(rec.key)) reviewsRowsMatchedToWatchedCount += 1;
     rec.reviewCount += 1;
-    const txt = getField(row, ["Review", "Text", "Content"]);
+    const txt = reviewsField(row, ["Review", "Text", "Content"]);
     if (txt?.trim()) rec.reviewTextSamples.push(txt.trim().slice(0, 500));
     if (!rec.sources.includes("reviews")) rec.sources.push("reviews");
   }
 
+  // Watchlist rows join the master table without touching watched state.
+  const watchlistField = fieldReader(t.watchlist);
+  for (const row of t.watchlist) {
+    const rec = upsert(row, "watchlist", watchlistField);
+    if (!rec) continue;
+    rec.watchlisted = true;
+    const d = toISODateOnly(watchlistField(row, ["Date", "Added Date"]));
+    if (d && (!rec.watchlistedAt || d < rec.watchlistedAt)) rec.watchlistedAt = d;
+    if (!rec.sources.includes("watchlist")) rec.sources.push("watchlist");
+  }
+
+  const likesField = fieldReader(t.likes);
+  for (const row of t.likes) {
+    const rec = upsert(row, "likes", likesField);
+    if (!rec) continue;
+    rec.liked = true;
+    if (!rec.sources.includes("likes")) rec.sources.push("likes");
+  }
+
+  let listEntriesTotal = 0;
+  let listEntriesMatchedToWatchedCount = 0;
+  for (const list of t.lists) {
+    const listField = fieldReader(list.entries);
+    for (const row of list.entries) {
+      const rec = upsert(row, "lists", listField);
+      if (!rec) continue;
+      listEntriesTotal += 1;
+      if (watchedKeys.has(rec.key)) listEntriesMatchedToWatchedCount += 1;
+      rec.lists.push({
+        list: list.name,
+        position: safeNum(listField(row, ["Position"])),
+        notes: listField(row, ["Description", "Notes"])
+      });
+      if (!rec.sources.includes("lists")) rec.sources.push("lists");
+    }
+  }
+
+  // Other services come last: where both have a film, Letterboxd's rating stands and a day already in the diary is not logged twice.
+  for (const ext of t.external) {
+    const src = ext.service;
+    const extField = fieldReader([...ext.watched, ...ext.ratings, ...ext.diary, ...ext.watchlist]);
+    const mark = (rec: FilmRecord) => { if (!rec.sources.includes(src)) rec.sources.push(src); };
+    for (const row of ext.watched) {
+      const rec = upsert(row, src, extField);
+      if (!rec) continue;
+      rec.watched = true;
+      watchedKeys.add(rec.key);
+      mark(rec);
+    }
+    for (const row of ext.ratings) {
+      const rec = upsert(row, src, extField);
+      if (!rec) continue;
+      if (rec.rating === null) {
+        rec.rated = true;
+        rec.rating = safeNum(extField(row, ["Rating"]));
+        const d = toISODateOnly(extField(row, ["Date"]));
+        if (d) rec.ratedDates.push(d);
+      }
+      mark(rec);
+    }
+    for (const row of ext.diary) {
+      const rec = upsert(row, src, extField);
+      if (!rec) continue;
+      rec.watched = true;
+      watchedKeys.add(rec.key);
+      mark(rec);
+      const watchedAt = toISODateOnly(extField(row, ["Watched Date"]));
+      if (!watchedAt || rec.diaryEntries.some(e => e.watchedAt === watchedAt)) continue;
+      const rewatch = (extField(row, ["Rewatch"]) || "").toLowerCase() === "yes";
+      rec.diaryEntries.push({ watchedAt, estimated: false, loggedAt: null, rewatch, rating: null, tags: [] });
+      rec.watchedDates.push(watchedAt);
+      if (rewatch) rec.rewatchCount += 1;
+    }
+    for (const row of ext.watchlist) {
+      const rec = upsert(row, src, extField);
+      if (!rec) continue;
+      if (!rec.watched) rec.watchlisted = true;
+      const d = toISODateOnly(extField(row, ["Date"]));
+      if (rec.watchlisted && d && (!rec.watchlistedAt || d < rec.watchlistedAt)) rec.watchlistedAt = d;
+      mark(rec);
+    }
+  }
+
   const out = Array.from(map.values());
   for (const rec of out) {
     rec.watchedDates = Array.from(new Set(rec.watchedDates)).sort();
     rec.ratedDates = Array.from(new Set(rec.ratedDates)).sort();
     rec.tags = Array.from(new Set(rec.tags));
+    rec.ratingHistory = [...rec.diaryEntries]
+      .filter(e => e.rating !== null)
+      .sort((a, b) => a.watchedAt.localeCompare(b.watchedAt))
+      .map((e): RatingPoint => ({ date: e.watchedAt, rating: e.rating!, source: "diary" }));
+    if (rec.rating !== null) {
+      rec.ratingHistory.push({ date: rec.ratedDates[rec.ratedDates.length - 1] || null, rating: rec.rating, source: "ratings" });
+    }
   }
 
   const watchedTrueCount = out.filter(f => f.watched).length;
@@ -298,7 +637,7 @@ export function mergeTablesToFilms(t: ExportTables): MergeResult {
 
   const importMap = new Map<string, number>();
   for (const row of t.watched) {
-    const d = toISODateOnly(getField(row, ["Date"]));
+    const d = toISODateOnly(watchedField(row, ["Date"]));
     if (d) importMap.set(d, (importMap.get(d) || 0) + 1);
   }
   const importPeak = Array.from(importMap.entries()).sort((a, b) => b[1] - a[1])[0] || null;
@@ -309,6 +648,7 @@ export function mergeTablesToFilms(t: ExportTables): MergeResult {
   const watchedDateSpanYears = spanYears(diaryEffectiveDates);
   const diaryEntrySpanYears = spanYears(diaryLoggedDates);
   const importSpikeDetected = largestSingleDayImportCount >= Math.max(40, Math.round(t.watched.length * 0.35));
+  onProgress?.({ rowsDone: rowsTotal, rowsTotal, films: out.length });
 
   return {
     films: out,
@@ -338,6 +678,16 @@ export function mergeTablesToFilms(t: ExportTables): MergeResult {
       largestSingleDayImportDate,
       watchedDateSpanYears,
       importSpikeDetected,
+      watchlistRowsTotal: t.watchlist.length,
+      watchlistAlsoWatchedCount: out.filter(f => f.watchlisted && f.watched).length,
+      likesRowsTotal: t.likes.length,
+      likedFilmsCount: out.filter(f => f.liked).length,
+      listsDetected: t.lists.length,
+      listEntriesTotal,
+      listEntriesMatchedToWatchedCount,
+      deletedFilesIgnored: Object.keys(t.deleted),
+      importReport: t.report,
+      identity: identity.summary(new Map(out.map(f => [f.key, f.name]))),
       randomFilmSamples: shuffled(out).slice(0, 5).map((f) => ({
         key: f.key,
         name: f.name,
@@ -345,7 +695,10 @@ export function mergeTablesToFilms(t: ExportTables): MergeResult {
         watchDatesCount: f.watchedDates.length,
         hasRating: f.rating !== null,
         hasReview: f.reviewCount > 0,
-        hasTags: f.tags.length > 0
+        hasTags: f.tags.length > 0,
+        matchedBy: f.matchedBy,
+        liked: f.liked,
+        listCount: f.lists.length
       }))
     }
   };
@@ -0,0 +1,29 @@
+export type AiMode =
+  | "roast"
+  | "praise"
+  | "duo_roast"
+  | "therapist"
+  | "critic_essay"
+  | "horoscope"
+  | "blind_spots"
+  | "dating_profile"
+  | "taste_archetype";
+
+/** `label` and `hint` are I18N keys; duo modes need a friend's export loaded. */
+export type AiModeInfo = { id: AiMode; label: string; hint: string; duo: boolean };
+
+export const AI_MODES: AiModeInfo[] = [
+  { id: "roast", label: "roast", hint: "roastHint", duo: false },
+  { id: "praise", label: "praise", hint: "praiseHint", duo: false },
+  { id: "therapist", label: "therapist", hint: "therapistHint", duo: false },
+  { id: "critic_essay", label: "criticEssay", hint: "criticEssayHint", duo: false },
+  { id: "horoscope", label: "horoscope", hint: "horoscopeHint", duo: false },
+  { id: "blind_spots", label: "blindSpots", hint: "blindSpotsHint", duo: false },
+  { id: "dating_profile", label: "datingProfile", hint: "datingProfileHint", duo: false },
+  { id: "taste_archetype", label: "tasteArchetype", hint: "tasteArchetypeHint", duo: false },
+  { id: "duo_roast", label: "duoRoast", hint: "duoRoastHint", duo: true }
+];
+
+export function isAiMode(v: unknown): v is AiMode {
+  return AI_MODES.some(m => m.id === v);
+}
@@ -11,14 +11,20 @@ export type ProfileSummary = {
     median: number | null;
     stddev: number | null;
     histogram: Array<{ rating: number; count: number }>;
+    drift: StatPack["ratings"]["drift"];
   };
   activity: StatPack["activity"];
   releaseYears: StatPack["releaseYears"];
   text: StatPack["text"];
+  watchlist: StatPack["watchlist"];
+  tags: StatPack["tags"];
+  rewatch: Omit<StatPack["rewatch"], "rows">;
   fun: StatPack["fun"];
 };
 
 export function toProfileSummary(stats: StatPack, label: string): ProfileSummary {
+  // The per-film rewatch table stays out of the compact summary.
+  const { rows: _rows, ...rewatch } = stats.rewatch;
   return {
     label,
     generatedAt: stats.generatedAt,
@@ -27,11 +33,15 @@ export function toProfileSummary(stats: StatPack, label: string): ProfileSummary
       mean: stats.ratings.mean,
       median: stats.ratings.median,
       stddev: stats.ratings.stddev,
-      histogram: stats.ratings.histogram
+      histogram: stats.ratings.histogram,
+      drift: stats.ratings.drift
     },
     activity: stats.activity,
     releaseYears: stats.releaseYears,
     text: stats.text,
+    watchlist: stats.watchlist,
+    tags: stats.tags,
+    rewatch,
     fun: stats.fun
   };
 }
@@ -49,15 +59,29 @@ export function summaryToText(s: ProfileSummary): string {
     `Rated films: ${s.totals.filmsRated}`,
     `Reviews: ${s.totals.filmsWithReviews}`,
     `Unrated watched: ${s.totals.unratedWatched}`,
+    `Liked films: ${s.totals.filmsLiked}`,
+    `Lists: ${s.totals.lists} (${s.totals.listEntries} entries)`,
     `Mean rating: ${mean}`,
     `Median rating: ${med}`,
     `Rating stddev: ${sd}`,
+    `Films whose rating changed over time: ${s.ratings.drift.changedCount} (raised ${s.ratings.drift.raised}, lowered ${s.ratings.drift.lowered})`,
+    `Current rating disagrees with latest diary rating: ${s.ratings.drift.disagreeing}`,
     `Longest streak (days): ${s.activity.longestStreakDays}`,
     `Busiest day: ${busiest}`,
     `Recent 90 days watched: ${s.activity.recent90.watched}`,
     `Recent 90 days mean rating: ${s.activity.recent90.meanRating === null ? "n/a" : String(round1(s.activity.recent90.meanRating))}`,
     `Release year span: ${span}`,
     `Decades watched: ${s.releaseYears.decadeBuckets.map(d => `${d.decade}:${d.count}`).slice(0, 10).join(", ")}`,
+    `Watchlist backlog: ${s.watchlist.backlogSize}`,
+    `Watchlist median age (days): ${s.watchlist.medianAgeDays === null ? "n/a" : Math.round(s.watchlist.medianAgeDays)}`,
+    `Watched from watchlist: ${s.watchlist.watchedFromWatchlist} (${Math.round(s.watchlist.conversionShare * 100)}%)`,
+    `Tagged diary entries: ${s.tags.taggedEntries} (${s.tags.distinctTags} distinct tags)`,
+    `Top tags: ${s.tags.frequency.map(t => `${t.tag}:${t.count}`).slice(0, 10).join(", ") || "n/a"}`,
+    `Mean rating by tag: ${s.tags.meanRatingByTag.map(t => `${t.tag}:${round1(t.meanRating)}`).slice(0, 10).join(", ") || "n/a"}`,
+    `Tags that predict a high rating: ${s.tags.predictors.map(t => `${t.tag} (x${round1(t.lift)})`).slice(0, 5).join(", ") || "n/a"}`,
+    `Rewatched films: ${s.rewatch.rewatchedFilms} (${s.rewatch.totalRewatches} of ${s.rewatch.totalWatches} diary watches are rewatches)`,
+    `Average gap between watches (days): ${s.rewatch.avgGapDays === null ? "n/a" : Math.round(s.rewatch.avgGapDays)}`,
+    `Comfort films: ${s.rewatch.comfortFilms.map(r => r.name).slice(0, 8).join(", ") || "n/a"}`,
     `Top words: ${s.text.topWords.map(w => `${w.word}:${w.count}`).slice(0, 15).join(", ")}`,
     `Badge: ${s.fun.badge}`,
     `Commitment: ${Math.round(s.fun.commitmentIndex * 100)}%`
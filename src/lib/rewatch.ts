@@ -0,0 +1,126 @@
+import Papa from "papaparse";
+import { FilmRecord } from "./letterboxd";
+import { daysBetween, mean } from "./utils";
+
+export type RewatchRow = {
+  name: string;
+  year: number | null;
+  watches: number;
+  rewatches: number;
+  firstWatch: string;
+  lastWatch: string;
+  avgGapDays: number | null;
+  distinctYears: number;
+  diaryRatings: number[];
+  ratingChange: number | null; // last diary rating minus first
+  comfort: boolean;
+};
+
+export type RewatchReport = {
+  rewatchedFilms: number;
+  totalWatches: number;
+  totalRewatches: number;
+  avgGapDays: number | null;
+  mostRewatched: RewatchRow[];
+  comfortFilms: RewatchRow[];
+  ratingChanges: { films: number; meanChange: number | null; up: number; down: number; same: number };
+  byYear: Array<{ year: string; watches: number; rewatches: number; share: number }>;
+  rows: RewatchRow[];
+};
+
+// Rewatched in at least this many distinct calendar years.
+const COMFORT_YEARS = 3;
+
+function gapsOf(watchDates: string[]): number[] {
+  const gaps: number[] = [];
+  for (let i = 1; i < watchDates.length; i++) gaps.push(daysBetween(watchDates[i - 1], watchDates[i]));
+  return gaps;
+}
+
+function rowFor(f: FilmRecord): RewatchRow | null {
+  const entries = [...f.diaryEntries].sort((a, b) => a.watchedAt.localeCompare(b.watchedAt));
+  const rewatches = entries.filter(e => e.rewatch).length;
+  if (entries.length < 2 && rewatches === 0) return null;
+
+  const gaps = gapsOf(entries.map(e => e.watchedAt));
+  const years = new Set(entries.map(e => e.watchedAt.slice(0, 4)));
+  const diaryRatings = entries.map(e => e.rating).filter((r): r is number => r !== null);
+
+  return {
+    name: f.name,
+    year: f.year,
+    watches: entries.length,
+    rewatches,
+    firstWatch: entries[0].watchedAt,
+    lastWatch: entries[entries.length - 1].watchedAt,
+    avgGapDays: mean(gaps),
+    distinctYears: years.size,
+    diaryRatings,
+    ratingChange: diaryRatings.length >= 2 ? diaryRatings[diaryRatings.length - 1] - diaryRatings[0] : null,
+    comfort: years.size >= COMFORT_YEARS
+  };
+}
+
+export function computeRewatchReport(films: FilmRecord[]): RewatchReport {
+  const watched = films.filter(f => f.watched);
+  const rows = watched
+    .map(rowFor)
+    .filter((r): r is RewatchRow => r !== null)
+    .sort((a, b) => b.watches - a.watches || b.rewatches - a.rewatches || a.name.localeCompare(b.name));
+
+  const allGaps = watched.flatMap(f => gapsOf(f.diaryEntries.map(e => e.watchedAt).sort()));
+
+  const changed = rows.filter(r => r.ratingChange !== null);
+  const yearMap = new Map<string, { watches: number; rewatches: number }>();
+  let totalWatches = 0;
+  let totalRewatches = 0;
+  for (const f of watched) {
+    for (const e of f.diaryEntries) {
+      const y = e.watchedAt.slice(0, 4);
+      const cur = yearMap.get(y) || { watches: 0, rewatches: 0 };
+      cur.watches += 1;
+      totalWatches += 1;
+      if (e.rewatch) {
+        cur.rewatches += 1;
+        totalRewatches += 1;
+      }
+      yearMap.set(y, cur);
+    }
+  }
+
+  return {
+    rewatchedFilms: rows.length,
+    totalWatches,
+    totalRewatches,
+    avgGapDays: mean(allGaps),
+    mostRewatched: rows.slice(0, 10),
+    comfortFilms: rows.filter(r => r.comfort),
+    ratingChanges: {
+      films: changed.length,
+      meanChange: mean(changed.map(r => r.ratingChange!)),
+      up: changed.filter(r => r.ratingChange! > 0).length,
+      down: changed.filter(r => r.ratingChange! < 0).length,
+      same: changed.filter(r => r.ratingChange === 0).length
+    },
+    byYear: Array.from(yearMap.entries())
+      .sort((a, b) => a[0].localeCompare(b[0]))
+      .map(([year, v]) => ({ year, watches: v.watches, rewatches: v.rewatches, share: v.watches ? v.rewatches / v.watches : 0 })),
+    rows
+  };
+}
+
+export function rewatchTableToCSV(report: RewatchReport): string {
+  return Papa.unparse(report.rows.map(r => ({
+    Name: r.name,
+    Year: r.year ?? "",
+    Watches: r.watches,
+    Rewatches: r.rewatches,
+    "First Watch": r.firstWatch,
+    "Last Watch": r.lastWatch,
+    "Avg Gap Days": r.avgGapDays === null ? "" : Math.round(r.avgGapDays),
+    "Distinct Years": r.distinctYears,
+    "Diary Ratings": r.diaryRatings.join(" "),
+    "Rating Change": r.ratingChange ?? "",
+    Comfort: r.comfort ? "Yes" : ""
+  })));
+}
@@ -0,0 +1,213 @@
+import { RawRow, SupportedCsv } from "./letterboxd";
+import { ExternalService, SERVICE_LABELS } from "./services";
+import { normaliseHeader, safeNum, toISODateOnly } from "./utils";
+
+export type ColumnKind = "text" | "date" | "rating" | "year";
+
+export type ColumnSpec = {
+  name: string;
+  kind: ColumnKind;
+  /** Without it the table cannot be merged at all. */
+  required?: boolean;
+  /** Other headers the merge accepts for this column. */
+  aliases?: string[];
+};
+
+export type TableSchema = {
+  table: SupportedCsv;
+  columns: ColumnSpec[];
+  /** Rows equal on all of these are duplicates; empty compares whole rows. */
+  key: string[];
+};
+
+/** Rows are numbered as a spreadsheet shows them: the header is row 1. */
+export type RowIssue = { row: number; column: string; value: string };
+export type DuplicateRow = { row: number; firstRow: number };
+export type IssueList<T> = { count: number; samples: T[] };
+
+export type TableReport = {
+  file: string;
+  table: SupportedCsv | ExternalService | "unknown";
+  detectedBy: "name" | "header" | "none";
+  rows: number;
+  /** Entries another service's export holds that are not films (TV), left out on purpose. */
+  skipped?: number;
+  note?: string;
+  missingRequired: string[];
+  missingOptional: string[];
+  badDates: IssueList<RowIssue>;
+  badRatings: IssueList<RowIssue>;
+  badYears: IssueList<RowIssue>;
+  duplicates: IssueList<DuplicateRow>;
+};
+
+export type ReportMessage = { level: "error" | "warning" | "info"; file: string; text: string };
+
+export type ImportReport = {
+  tables: TableReport[];
+  /** Errors first; what the import card and the debug panel list. */
+  messages: ReportMessage[];
+};
+
+/** Import failure with a message a user can act on; `report` holds what was read before it. */
+export class ImportError extends Error {
+  constructor(message: string, public report?: ImportReport) {
+    super(message);
+  }
+}
+
+const SAMPLE_LIMIT = 20;
+const ROWS_IN_MESSAGE = 5;
+const MIN_YEAR = 1870;
+
+const NAME: ColumnSpec = { name: "Name", kind: "text", required: true, aliases: ["Film", "Title"] };
+const YEAR: ColumnSpec = { name: "Year", kind: "year" };
+const URI: ColumnSpec = { name: "Letterboxd URI", kind: "text", aliases: ["URI", "Url", "Link"] };
+const FILM_COLUMNS: ColumnSpec[] = [{ name: "Date", kind: "date" }, NAME, YEAR, URI];
+const FILM_KEY = ["Name", "Year", "Letterboxd URI"];
+
+// Declaration order breaks ties in header detection: watched before watchlist and likes.
+export const SCHEMAS: TableSchema[] = [
+  { table: "watched", columns: FILM_COLUMNS, key: FILM_KEY },
+  { table: "watchlist", columns: FILM_COLUMNS, key: FILM_KEY },
+  { table: "likes", columns: FILM_COLUMNS, key: FILM_KEY },
+  { table: "ratings", columns: [...FILM_COLUMNS, { name: "Rating", kind: "rating", required: true }], key: FILM_KEY },
+  {
+    table: "diary",
+    columns: [...FILM_COLUMNS, { name: "Rating", kind: "rating" }, { name: "Rewatch", kind: "text" }, { name: "Tags", kind: "text" }, { name: "Watched Date", kind: "date" }],
+    key: []
+  },
+  {
+    table: "reviews",
+    columns: [...FILM_COLUMNS, { name: "Rating", kind: "rating" }, { name: "Rewatch", kind: "text" }, { name: "Review", kind: "text", required: true }, { name: "Tags", kind: "text" }, { name: "Watched Date", kind: "date" }],
+    key: []
+  },
+  { table: "profile", columns: [{ name: "Date Joined", kind: "date", required: true }, { name: "Username", kind: "text", required: true }], key: [] },
+  { table: "comments", columns: [{ name: "Date", kind: "date" }, { name: "Content", kind: "text", required: true }, { name: "Comment", kind: "text", required: true }], key: [] },
+  { table: "lists", columns: [{ name: "Position", kind: "text" }, NAME, YEAR, { name: "URL", kind: "text", aliases: ["Letterboxd URI"] }, { name: "Description", kind: "text" }], key: FILM_KEY }
+];
+
+function findHeader(headers: string[], spec: ColumnSpec): string | null {
+  const names = [spec.name, ...(spec.aliases || [])].map(normaliseHeader);
+  return headers.find(h => names.includes(normaliseHeader(h))) ?? null;
+}
+
+/**
+ * The table a header row belongs to: every required column present, most
+ * schema columns matched. watched, watchlist and likes share one header, so
+ * the file name breaks ties and watched wins when it says nothing.
+ */
+export function detectBySchema(filename: string, headers: string[]): SupportedCsv | "unknown" {
+  const lower = filename.toLowerCase();
+  const mentions = (s: TableSchema) => lower.includes(s.table === "likes" ? "like" : s.table);
+  let best: { schema: TableSchema; score: number } | null = null;
+  for (const schema of SCHEMAS) {
+    // List files are told apart by their layout, not a header row.
+    if (schema.table === "lists") continue;
+    if (schema.columns.some(c => c.required && !findHeader(headers, c))) continue;
+    const score = schema.columns.filter(c => findHeader(headers, c)).length;
+    // One matching column is not enough to call a table.
+    if (score < 2) continue;
+    if (!best || score > best.score || (score === best.score && mentions(schema) && !mentions(best.schema))) best = { schema, score };
+  }
+  return best ? best.schema.table : "unknown";
+}
+
+function validDate(v: string): boolean {
+  const iso = toISODateOnly(v);
+  if (!iso) return false;
+  const d = new Date(`${iso}T00:00:00Z`);
+  return !Number.isNaN(d.getTime()) && d.toISOString().slice(0, 10) === iso;
+}
+
+function validRating(v: string): boolean {
+  const n = safeNum(v);
+  return n !== null && n >= 0.5 && n <= 5 && Number.isInteger(n * 2);
+}
+
+function validYear(v: string): boolean {
+  const n = safeNum(v);
+  return n !== null && Number.isInteger(n) && n >= MIN_YEAR && n <= new Date().getUTCFullYear() + 10;
+}
+
+const CHECKS: Record<Exclude<ColumnKind, "text">, { valid: (v: string) => boolean; field: "badDates" | "badRatings" | "badYears" }> = {
+  date: { valid: validDate, field: "badDates" },
+  rating: { valid: validRating, field: "badRatings" },
+  year: { valid: validYear, field: "badYears" }
+};
+
+function note<T>(list: IssueList<T>, item: T) {
+  list.count += 1;
+  if (list.samples.length < SAMPLE_LIMIT) list.samples.push(item);
+}
+
+/**
+ * Checks one parsed table against its schema; empty cells are never flagged,
+ * only missing columns. A table with no rows and no header has nothing to check.
+ */
+export function validateTable(file: string, table: TableReport["table"], detectedBy: TableReport["detectedBy"], rows: RawRow[], fields: string[]): TableReport {
+  const report: TableReport = {
+    file, table, detectedBy, rows: rows.length,
+    missingRequired: [], missingOptional: [],
+    badDates: { count: 0, samples: [] }, badRatings: { count: 0, samples: [] }, badYears: { count: 0, samples: [] },
+    duplicates: { count: 0, samples: [] }
+  };
+  const schema = SCHEMAS.find(s => s.table === table);
+  // Short rows can miss trailing columns and Papa names extra cells __parsed_extra, so the header row wins when there is one.
+  const headers = fields.length ? fields : Array.from(new Set(rows.flatMap(r => Object.keys(r))));
+  if (!schema || !headers.length) return report;
+
+  const columns = schema.columns.map(spec => ({ spec, header: findHeader(headers, spec) }));
+  for (const { spec, header } of columns) {
+    if (!header) (spec.required ? report.missingRequired : report.missingOptional).push(spec.name);
+  }
+  const checked = columns.filter((c): c is { spec: ColumnSpec & { kind: Exclude<ColumnKind, "text"> }; header: string } => !!c.header && c.spec.kind !== "text");
+  const keyHeaders = schema.key.length
+    ? columns.filter(c => c.header && schema.key.includes(c.spec.name)).map(c => c.header!)
+    : headers;
+
+  const seen = new Map<string, number>();
+  rows.forEach((r, i) => {
+    const row = i + 2;
+    for (const { spec, header } of checked) {
+      const value = String(r[header] ?? "").trim();
+      if (value && !CHECKS[spec.kind].valid(value)) note(report[CHECKS[spec.kind].field], { row, column: header, value });
+    }
+    if (!keyHeaders.length) return;
+    const key = keyHeaders.map(h => String(r[h] ?? "").trim().toLowerCase()).join("\u0000");
+    const first = seen.get(key);
+    if (first !== undefined) note(report.duplicates, { row, firstRow: first });
+    else seen.set(key, row);
+  });
+  return report;
+}
+
+function rowList(list: IssueList<{ row: number }>): string {
+  const rows = list.samples.slice(0, ROWS_IN_MESSAGE).map(s => s.row).join(", ");
+  return `row${list.count > 1 ? "s" : ""} ${list.count > ROWS_IN_MESSAGE ? `${rows} and ${list.count - ROWS_IN_MESSAGE} more` : rows}`;
+}
+
+/** Turns table reports into the messages shown to the user, errors first. */
+export function reportMessages(tables: TableReport[]): ReportMessage[] {
+  const out: ReportMessage[] = [];
+  for (const t of tables) {
+    const push = (level: ReportMessage["level"], text: string) => out.push({ level, file: t.file, text });
+    if (t.table in SERVICE_LABELS) {
+      const label = SERVICE_LABELS[t.table as ExternalService];
+      push(t.rows ? "info" : "warning", `Read as ${label}: ${t.rows} film entr${t.rows === 1 ? "y" : "ies"}${t.skipped ? `, ${t.skipped} TV or other non-film entr${t.skipped === 1 ? "y" : "ies"} left out` : ""}.${t.note ? ` ${t.note}` : ""}`);
+      continue;
+    }
+    if (t.table === "unknown") {
+      if (t.detectedBy === "none") push("warning", "Not a Letterboxd table; skipped. Rename it (e.g. diary.csv) or check its header row.");
+      continue;
+    }
+    if (t.missingRequired.length) push("error", `Missing required column${t.missingRequired.length > 1 ? "s" : ""} ${t.missingRequired.join(", ")} for ${t.table}; its rows cannot be merged.`);
+    if (t.detectedBy === "header") push("warning", `Read as ${t.table} from its header row.`);
+    if (t.badDates.count) push("warning", `${t.badDates.count} unparseable date${t.badDates.count > 1 ? "s" : ""} (${rowList(t.badDates)}); expected YYYY-MM-DD.`);
+    if (t.badRatings.count) push("warning", `${t.badRatings.count} rating${t.badRatings.count > 1 ? "s" : ""} outside 0.5–5 in half steps (${rowList(t.badRatings)}).`);
+    if (t.badYears.count) push("warning", `${t.badYears.count} unusable release year${t.badYears.count > 1 ? "s" : ""} (${rowList(t.badYears)}).`);
+    if (t.duplicates.count) push("warning", `${t.duplicates.count} duplicate row${t.duplicates.count > 1 ? "s" : ""} (${rowList(t.duplicates)}).`);
+  }
+  const order = { error: 0, warning: 1, info: 2 };
+  return out.sort((a, b) => order[a.level] - order[b.level]);
+}
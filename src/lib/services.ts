@@ -0,0 +1,4 @@
+/** Film services other than Letterboxd whose exports the import reads. */
+export type ExternalService = "imdb" | "trakt" | "tmdb";
+
+export const SERVICE_LABELS: Record<ExternalService, string> = { imdb: "IMDb", trakt: "Trakt", tmdb: "TMDB" };
@@ -0,0 +1,169 @@
+import { foldTitle, titleKey } from "./identity";
+import { FilmKey, FilmRecord } from "./letterboxd";
+import { ProfileSummary, toProfileSummary } from "./profile";
+import { StatPack } from "./stats";
+
+export type SnapshotFilm = { n: string; y: number | null; r: number | null; w: boolean };
+
+export type Snapshot = {
+  id: string;
+  label: string;
+  savedAt: string;
+  summary: ProfileSummary;
+  films: Record<FilmKey, SnapshotFilm>;
+};
+
+export type SnapshotDiff = {
+  from: string;
+  to: string;
+  filmsAdded: Array<{ name: string; year: number | null }>;
+  ratingsChanged: Array<{ name: string; year: number | null; before: number; after: number }>;
+  ratingsDeleted: Array<{ name: string; year: number | null; before: number }>;
+  meanShift: number | null;
+  decadeShift: Array<{ decade: string; before: number; after: number }>;
+};
+
+export type GrowthPoint = { savedAt: string; watched: number; rated: number; mean: number | null };
+
+const DB_NAME = "letterboxd-ai-review";
+const STORE = "snapshots";
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, 1);
+    req.onupgradeneeded = () => {
+      const store = req.result.createObjectStore(STORE, { keyPath: "id" });
+      store.createIndex("label", "label");
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const req = fn(db.transaction(STORE, mode).objectStore(STORE));
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+export function snapshotLabel(label: string | null): string {
+  return label?.trim() || "You";
+}
+
+export function buildSnapshot(films: FilmRecord[], stats: StatPack, label: string | null): Snapshot {
+  const name = snapshotLabel(label);
+  const compact: Record<FilmKey, SnapshotFilm> = {};
+  for (const f of films) {
+    if (!f.watched && f.rating === null) continue;
+    compact[f.key] = { n: f.name, y: f.year, r: f.rating, w: f.watched };
+  }
+  return { id: `${name}:${stats.generatedAt}`, label: name, savedAt: stats.generatedAt, summary: toProfileSummary(stats, name), films: compact };
+}
+
+export async function listSnapshots(label: string): Promise<Snapshot[]> {
+  const all = await withStore<Snapshot[]>("readonly", s => s.index("label").getAll(label));
+  return all.sort((a, b) => a.savedAt.localeCompare(b.savedAt));
+}
+
+export async function saveSnapshot(snap: Snapshot): Promise<void> {
+  await withStore("readwrite", s => s.put(snap));
+}
+
+export async function deleteSnapshots(label: string): Promise<void> {
+  for (const s of await listSnapshots(label)) await withStore("readwrite", st => st.delete(s.id));
+}
+
+/**
+ * Pairs each film in `next` with its entry in `prev`: by key first, then by
+ * folded title + year, since a key turns from title: to uri: once an export
+ * carries the film's link. Two different URI slugs stay two films, as in identity.ts.
+ */
+function pairFilms(prev: Snapshot, next: Snapshot): Map<FilmKey, FilmKey> {
+  const pairs = new Map<FilmKey, FilmKey>();
+  const taken = new Set<FilmKey>();
+  for (const k of Object.keys(next.films)) {
+    if (!prev.films[k]) continue;
+    pairs.set(k, k);
+    taken.add(k);
+  }
+  const byTitle = new Map<string, FilmKey[]>();
+  for (const [k, f] of Object.entries(prev.films)) {
+    if (taken.has(k)) continue;
+    const tk = titleKey(foldTitle(f.n), f.y);
+    byTitle.set(tk, [...(byTitle.get(tk) || []), k]);
+  }
+  for (const [k, f] of Object.entries(next.films)) {
+    if (pairs.has(k)) continue;
+    const match = (byTitle.get(titleKey(foldTitle(f.n), f.y)) || [])
+      .find(p => !taken.has(p) && (k.startsWith("title:") || p.startsWith("title:")));
+    if (!match) continue;
+    pairs.set(k, match);
+    taken.add(match);
+  }
+  return pairs;
+}
+
+/** Same films and same ratings: re-importing an identical export adds nothing. */
+export function sameContent(a: Snapshot, b: Snapshot): boolean {
+  if (Object.keys(a.films).length !== Object.keys(b.films).length) return false;
+  const pairs = pairFilms(a, b);
+  return Object.entries(b.films).every(([k, f]) => {
+    const old = pairs.has(k) ? a.films[pairs.get(k)!] : undefined;
+    return !!old && old.r === f.r && old.w === f.w;
+  });
+}
+
+function decadeShares(s: ProfileSummary): Map<string, number> {
+  const total = s.releaseYears.decadeBuckets.reduce((n, d) => n + d.count, 0);
+  return new Map(s.releaseYears.decadeBuckets.map(d => [d.decade, total ? d.count / total : 0]));
+}
+
+export function diffSnapshots(prev: Snapshot, next: Snapshot): SnapshotDiff {
+  const filmsAdded: SnapshotDiff["filmsAdded"] = [];
+  const ratingsChanged: SnapshotDiff["ratingsChanged"] = [];
+  const ratingsDeleted: SnapshotDiff["ratingsDeleted"] = [];
+
+  const pairs = pairFilms(prev, next);
+  const paired = new Map(Array.from(pairs, ([k, p]) => [p, k]));
+  for (const [k, f] of Object.entries(next.films)) {
+    const old = pairs.has(k) ? prev.films[pairs.get(k)!] : undefined;
+    if (f.w && !old?.w) filmsAdded.push({ name: f.n, year: f.y });
+    if (old && old.r !== null && f.r !== null && old.r !== f.r) ratingsChanged.push({ name: f.n, year: f.y, before: old.r, after: f.r });
+  }
+  for (const [k, old] of Object.entries(prev.films)) {
+    const now = paired.has(k) ? next.films[paired.get(k)!] : undefined;
+    if (old.r !== null && (now?.r ?? null) === null) ratingsDeleted.push({ name: old.n, year: old.y, before: old.r });
+  }
+
+  const before = decadeShares(prev.summary);
+  const after = decadeShares(next.summary);
+  const decades = Array.from(new Set([...before.keys(), ...after.keys()])).sort();
+
+  return {
+    from: prev.savedAt,
+    to: next.savedAt,
+    filmsAdded,
+    ratingsChanged,
+    ratingsDeleted,
+    meanShift: prev.summary.ratings.mean !== null && next.summary.ratings.mean !== null
+      ? next.summary.ratings.mean - prev.summary.ratings.mean
+      : null,
+    decadeShift: decades.map(decade => ({ decade, before: before.get(decade) || 0, after: after.get(decade) || 0 }))
+  };
+}
+
+export function growthTimeline(snaps: Snapshot[]): GrowthPoint[] {
+  return snaps.map(s => ({
+    savedAt: s.savedAt,
+    watched: s.summary.totals.filmsWatched,
+    rated: s.summary.totals.filmsRated,
+    mean: s.summary.ratings.mean
+  }));
+}
@@ -1,4 +1,8 @@
+import { computeRatingDrift, RatingDrift } from "./drift";
 import { FilmRecord } from "./letterboxd";
+import { computeRewatchReport, RewatchReport } from "./rewatch";
+import { computeTagStats, TagStats } from "./tags";
+import { computeWatchlistStats, WatchlistStats } from "./watchlist";
 import { clamp, dayKey, formatInt, formatPct, mean, median, monthKey, pearson, round1, round3, stddev, toISODateOnly } from "./utils";
 
 export type StatPack = {
@@ -12,6 +16,9 @@ export type StatPack = {
     unratedWatched: number;
     ratedShare: number;
     rewatchFilms: number;
+    filmsLiked: number;
+    lists: number;
+    listEntries: number;
   };
 
   ratings: {
@@ -19,6 +26,7 @@ export type StatPack = {
     median: number | null;
     stddev: number | null;
     histogram: Array<{ rating: number; count: number }>;
+    drift: RatingDrift;
   };
 
   activity: {
@@ -41,6 +49,12 @@ export type StatPack = {
     avgReviewLength: number | null;
   };
 
+  watchlist: WatchlistStats;
+
+  tags: TagStats;
+
+  rewatch: RewatchReport;
+
   fun: {
     tasteVolatilityIndex: number | null;
     commitmentIndex: number; // rated / watched
@@ -230,13 +244,17 @@ export function computeStats(films: FilmRecord[], userLabel: string | null): Sta
       diaryEntriesApprox: allWatchedDates.length,
       unratedWatched,
       ratedShare: commitmentIndex,
-      rewatchFilms: watchedFilms.filter(f => f.rewatchCount > 0).length
+      rewatchFilms: watchedFilms.filter(f => f.rewatchCount > 0).length,
+      filmsLiked: films.filter(f => f.liked).length,
+      lists: new Set(films.flatMap(f => f.lists.map(l => l.list))).size,
+      listEntries: films.reduce((n, f) => n + f.lists.length, 0)
     },
     ratings: {
       mean: meanR,
       median: medR,
       stddev: stddev(ratingNums),
-      histogram
+      histogram,
+      drift: computeRatingDrift(films)
     },
     activity: {
       byMonth,
@@ -255,6 +273,9 @@ export function computeStats(films: FilmRecord[], userLabel: string | null): Sta
       topWords,
       avgReviewLength
     },
+    watchlist: computeWatchlistStats(films),
+    tags: computeTagStats(films),
+    rewatch: computeRewatchReport(films),
     fun: {
       tasteVolatilityIndex,
       commitmentIndex,
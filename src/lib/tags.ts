@@ -0,0 +1,102 @@
+import { FilmRecord } from "./letterboxd";
+import { mean, monthKey } from "./utils";
+
+export type TagStats = {
+  taggedEntries: number;
+  distinctTags: number;
+  frequency: Array<{ tag: string; count: number }>;
+  meanRatingByTag: Array<{ tag: string; films: number; meanRating: number }>;
+  pairs: Array<{ a: string; b: string; count: number }>;
+  byMonth: Array<{ month: string; counts: Record<string, number> }>;
+  predictors: Array<{ tag: string; films: number; highShare: number; lift: number }>;
+};
+
+// A rating at or above this counts as "high" for the predictor table.
+const HIGH_RATING = 4;
+// Tags on fewer rated films than this are too thin to say anything.
+const MIN_SUPPORT = 3;
+const TOP_N = 15;
+
+function bump(map: Map<string, number>, k: string, by = 1) {
+  map.set(k, (map.get(k) || 0) + by);
+}
+
+export function computeTagStats(films: FilmRecord[]): TagStats {
+  const watched = films.filter(f => f.watched);
+
+  // Frequency, pairs and the time series count diary entries, not films.
+  const freq = new Map<string, number>();
+  const pairMap = new Map<string, number>();
+  const monthMap = new Map<string, Map<string, number>>();
+  let taggedEntries = 0;
+  for (const f of watched) {
+    for (const e of f.diaryEntries) {
+      const tags = Array.from(new Set(e.tags)).sort();
+      if (!tags.length) continue;
+      taggedEntries += 1;
+      const m = monthKey(e.watchedAt);
+      const perMonth = monthMap.get(m) || new Map<string, number>();
+      for (const t of tags) {
+        bump(freq, t);
+        bump(perMonth, t);
+      }
+      monthMap.set(m, perMonth);
+      for (let i = 0; i < tags.length; i++) {
+        for (let j = i + 1; j < tags.length; j++) bump(pairMap, `${tags[i]}\u0000${tags[j]}`);
+      }
+    }
+  }
+
+  const frequency = Array.from(freq.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([tag, count]) => ({ tag, count }));
+  const topTags = frequency.slice(0, 5).map(x => x.tag);
+
+  const rated = watched.filter(f => f.rating !== null);
+  const baselineHigh = rated.length ? rated.filter(f => f.rating! >= HIGH_RATING).length / rated.length : 0;
+
+  const byTag = new Map<string, number[]>();
+  for (const f of rated) {
+    for (const t of f.tags) byTag.set(t, [...(byTag.get(t) || []), f.rating!]);
+  }
+
+  const meanRatingByTag = Array.from(byTag.entries())
+    .map(([tag, rs]) => ({ tag, films: rs.length, meanRating: mean(rs)! }))
+    .sort((a, b) => b.films - a.films || a.tag.localeCompare(b.tag))
+    .slice(0, TOP_N);
+
+  const predictors = Array.from(byTag.entries())
+    .filter(([, rs]) => rs.length >= MIN_SUPPORT)
+    .map(([tag, rs]) => {
+      const highShare = rs.filter(r => r >= HIGH_RATING).length / rs.length;
+      return { tag, films: rs.length, highShare, lift: baselineHigh ? highShare / baselineHigh : 0 };
+    })
+    .filter(p => p.lift > 1)
+    .sort((a, b) => b.lift - a.lift || b.films - a.films)
+    .slice(0, 10);
+
+  const pairs = Array.from(pairMap.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, TOP_N)
+    .map(([k, count]) => {
+      const [a, b] = k.split("\u0000");
+      return { a, b, count };
+    });
+
+  const byMonth = Array.from(monthMap.entries())
+    .sort((a, b) => a[0].localeCompare(b[0]))
+    .map(([month, counts]) => ({
+      month,
+      counts: Object.fromEntries(topTags.map(t => [t, counts.get(t) || 0]))
+    }));
+
+  return {
+    taggedEntries,
+    distinctTags: freq.size,
+    frequency: frequency.slice(0, 25),
+    meanRatingByTag,
+    pairs,
+    byMonth,
+    predictors
+  };
+}
@@ -22,6 +22,10 @@ export function safeNum(v: unknown): number | null {
   return Number.isFinite(n) ? n : null;
 }
 
+export function normaliseHeader(h: string): string {
+  return h.trim().toLowerCase();
+}
+
 export function toISODateOnly(v: unknown): string | null {
   if (v === null || v === undefined) return null;
   const s = String(v).trim();
@@ -98,6 +102,12 @@ export function todayISO(): string {
   return new Date().toISOString().slice(0, 10);
 }
 
+export function daysBetween(fromIso: string, toIso: string): number {
+  const a = Date.parse(fromIso.slice(0, 10) + "T00:00:00Z");
+  const b = Date.parse(toIso.slice(0, 10) + "T00:00:00Z");
+  return Math.round((b - a) / 86400000);
+}
+
 export function dayKey(isoDate: string): string {
   return isoDate;
 }
@@ -0,0 +1,70 @@
+import { decadeOf } from "./filters";
+import { FilmRecord } from "./letterboxd";
+import { daysBetween, median, todayISO } from "./utils";
+
+export type WatchlistStats = {
+  backlogSize: number;
+  medianAgeDays: number | null;
+  oldestAddedAt: string | null;
+  addedLast90: number;
+  watchedFromWatchlist: number;
+  conversionShare: number; // watched-from-watchlist / watched
+  decadeMix: Array<{ decade: string; backlogShare: number; watchedShare: number }>;
+};
+
+function decadeShares(films: FilmRecord[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  let total = 0;
+  for (const f of films) {
+    const d = decadeOf(f.year);
+    if (!d) continue;
+    counts.set(d, (counts.get(d) || 0) + 1);
+    total += 1;
+  }
+  const out = new Map<string, number>();
+  for (const [d, c] of counts) out.set(d, total ? c / total : 0);
+  return out;
+}
+
+function firstWatch(f: FilmRecord): string | null {
+  return f.watchedDates[0] || null;
+}
+
+// Letterboxd drops films from the watchlist once they are logged, so the
+// conversion figure only sees films that were watched and kept on the list.
+function wasWatchedFromWatchlist(f: FilmRecord): boolean {
+  if (!f.watched || !f.watchlisted) return false;
+  const first = firstWatch(f);
+  if (!first || !f.watchlistedAt) return true;
+  return f.watchlistedAt <= first;
+}
+
+export function computeWatchlistStats(films: FilmRecord[], today: string = todayISO()): WatchlistStats {
+  const backlog = films.filter(f => f.watchlisted && !f.watched);
+  const watched = films.filter(f => f.watched);
+
+  const ages = backlog
+    .filter(f => f.watchlistedAt)
+    .map(f => Math.max(0, daysBetween(f.watchlistedAt!, today)));
+  const added = backlog.map(f => f.watchlistedAt).filter(Boolean).sort() as string[];
+
+  const watchedFromWatchlist = watched.filter(wasWatchedFromWatchlist).length;
+
+  const backlogMix = decadeShares(backlog);
+  const watchedMix = decadeShares(watched);
+  const decades = Array.from(new Set([...backlogMix.keys(), ...watchedMix.keys()])).sort();
+
+  return {
+    backlogSize: backlog.length,
+    medianAgeDays: median(ages),
+    oldestAddedAt: added[0] || null,
+    addedLast90: ages.filter(a => a <= 90).length,
+    watchedFromWatchlist,
+    conversionShare: watched.length ? watchedFromWatchlist / watched.length : 0,
+    decadeMix: decades.map(decade => ({
+      decade,
+      backlogShare: backlogMix.get(decade) || 0,
+      watchedShare: watchedMix.get(decade) || 0
+    }))
+  };
+}
@@ -0,0 +1,111 @@
+import { FilmRecord } from "./letterboxd";
+import { narrowToDateRange } from "./filters";
+import { computeStats, StatPack } from "./stats";
+import { mean } from "./utils";
+
+// Exports carry no runtimes, so hours are estimated from a typical feature length.
+export const AVG_RUNTIME_MINUTES = 110;
+
+export type YearTotals = {
+  filmsLogged: number;
+  diaryEntries: number;
+  hoursEstimated: number;
+  meanRating: number | null;
+};
+
+export type YearReview = {
+  year: number;
+  films: FilmRecord[];
+  stats: StatPack;
+  totals: YearTotals;
+  byMonth: Array<{ month: string; count: number }>;
+  bestFirstWatches: Array<{ name: string; year: number | null; rating: number; watchedAt: string }>;
+  mostRewatched: Array<{ name: string; year: number | null; watches: number }>;
+  releaseSplit: { newReleases: number; older: number; unknown: number };
+  previous: YearTotals | null;
+};
+
+export function availableYears(films: FilmRecord[]): number[] {
+  const years = new Set<number>();
+  for (const f of films) {
+    for (const e of f.diaryEntries) {
+      const y = Number(e.watchedAt.slice(0, 4));
+      if (Number.isFinite(y) && y > 0) years.add(y);
+    }
+  }
+  return Array.from(years).sort((a, b) => b - a);
+}
+
+/**
+ * Narrows every film to the diary entries logged in `year`. Films with no entry
+ * that year are dropped, except the watchlist backlog, which has no year.
+ */
+export function scopeFilmsToYear(films: FilmRecord[], year: number): FilmRecord[] {
+  return narrowToDateRange(films, `${year}-01-01`, `${year}-12-31`);
+}
+
+function yearTotals(scoped: FilmRecord[]): YearTotals {
+  const logged = scoped.filter(f => f.diaryEntries.length > 0);
+  const diaryEntries = logged.reduce((n, f) => n + f.diaryEntries.length, 0);
+  return {
+    filmsLogged: logged.length,
+    diaryEntries,
+    hoursEstimated: Math.round((diaryEntries * AVG_RUNTIME_MINUTES) / 60),
+    meanRating: mean(logged.map(f => f.rating).filter((r): r is number => r !== null))
+  };
+}
+
+export function computeYearReview(films: FilmRecord[], year: number, userLabel: string | null): YearReview {
+  const scoped = scopeFilmsToYear(films, year);
+  const logged = scoped.filter(f => f.diaryEntries.length > 0);
+  const label = `${userLabel?.trim() || "You"} in ${year}`;
+
+  const monthCounts = new Map<string, number>();
+  for (let m = 1; m <= 12; m++) monthCounts.set(`${year}-${String(m).padStart(2, "0")}`, 0);
+  for (const f of logged) {
+    for (const e of f.diaryEntries) {
+      const k = e.watchedAt.slice(0, 7);
+      monthCounts.set(k, (monthCounts.get(k) || 0) + 1);
+    }
+  }
+
+  // First watch = the film's earliest diary entry overall falls in this year.
+  const bestFirstWatches = films
+    .filter(f => f.rating !== null && f.diaryEntries.length > 0)
+    .map(f => {
+      const first = [...f.diaryEntries].sort((a, b) => a.watchedAt.localeCompare(b.watchedAt))[0];
+      return { f, first };
+    })
+    .filter(({ first }) => first.watchedAt.startsWith(String(year)) && !first.rewatch)
+    .sort((a, b) => (b.f.rating! - a.f.rating!) || a.first.watchedAt.localeCompare(b.first.watchedAt))
+    .slice(0, 10)
+    .map(({ f, first }) => ({ name: f.name, year: f.year, rating: f.rating!, watchedAt: first.watchedAt }));
+
+  const mostRewatched = logged
+    .filter(f => f.diaryEntries.length > 1 || f.rewatchCount > 0)
+    .sort((a, b) => b.diaryEntries.length - a.diaryEntries.length || a.name.localeCompare(b.name))
+    .slice(0, 10)
+    .map(f => ({ name: f.name, year: f.year, watches: f.diaryEntries.length }));
+
+  // "New" means released this year or the year before.
+  const releaseSplit = { newReleases: 0, older: 0, unknown: 0 };
+  for (const f of logged) {
+    if (f.year === null) releaseSplit.unknown += 1;
+    else if (f.year >= year - 1) releaseSplit.newReleases += 1;
+    else releaseSplit.older += 1;
+  }
+
+  const prev = yearTotals(scopeFilmsToYear(films, year - 1));
+
+  return {
+    year,
+    films: scoped,
+    stats: computeStats(scoped, label),
+    totals: yearTotals(scoped),
+    byMonth: Array.from(monthCounts.entries()).map(([month, count]) => ({ month, count })),
+    bestFirstWatches,
+    mostRewatched,
+    releaseSplit,
+    previous: prev.diaryEntries > 0 ? prev : null
+  };
+}
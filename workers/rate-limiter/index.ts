@@ -0,0 +1,42 @@
+/**
+ * Atomic daily counters for the Pages functions. Pages cannot host Durable
+ * Objects itself, so this small worker is deployed on its own and bound to the
+ * Pages project as RATE_LIMITER. One object per counter key.
+ */
+
+export type CounterRequest = { op: "take" | "give" | "peek"; limit?: number; ttlMs: number };
+export type CounterResponse = { ok: boolean; count: number };
+
+export class RateLimiter implements DurableObject {
+  constructor(private state: DurableObjectState) {}
+
+  async fetch(request: Request): Promise<Response> {
+    const body = (await request.json().catch(() => null)) as CounterRequest | null;
+    if (!body) return new Response("Invalid JSON.", { status: 400 });
+    // Requests to one object run one at a time, so the read and the write below cannot interleave.
+    let count = (await this.state.storage.get<number>("count")) || 0;
+    let ok = true;
+    if (body.op === "take") {
+      ok = body.limit === undefined || count < body.limit;
+      if (ok) count += 1;
+    } else if (body.op === "give") {
+      count = Math.max(0, count - 1);
+    }
+    if (body.op !== "peek") {
+      await this.state.storage.put("count", count);
+      // Counters are per day; the alarm clears the object once its day is over.
+      if ((await this.state.storage.getAlarm()) === null) await this.state.storage.setAlarm(Date.now() + body.ttlMs);
+    }
+    return Response.json({ ok, count } satisfies CounterResponse);
+  }
+
+  async alarm(): Promise<void> {
+    await this.state.storage.deleteAll();
+  }
+}
+
+export default {
+  fetch(): Response {
+    return new Response("Rate limiter Durable Object; bind RateLimiter to the Pages project as RATE_LIMITER.", { status: 404 });
+  }
+};